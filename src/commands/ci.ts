@@ -0,0 +1,164 @@
+// CI mode: export a profile's environment to later job steps (GitHub Actions, GitLab CI)
+
+import * as fs from 'fs';
+import { randomUUID } from 'crypto';
+import * as config from '../lib/config.js';
+import { generateEnvVars } from '../lib/shell.js';
+import { formatEnvFile, getExportEnv } from '../lib/envfile.js';
+import { isValidEnvKey, SECRET_VARS } from '../lib/kinds.js';
+import { resolveProjectOrExit } from './profile.js';
+import { ProfileLoader, PROJECT_FILES } from '../lib/project.js';
+import { findSecretReferences } from '../lib/secrets.js';
+import { EnvVars, Profile } from '../types.js';
+
+export const DEFAULT_API_KEY_ENV = 'CCX_API_KEY';
+
+// GitLab's default dotenv report path
+const DEFAULT_DOTENV_FILE = 'ccx.env';
+
+export interface CiOptions {
+  apiKeyEnv?: string;
+  dotenv?: string;
+  includeSecrets?: boolean;
+}
+
+function resolveCiProfile(name: string | undefined, loadProfile: ProfileLoader): Profile {
+  if (name) {
+    const profile = loadProfile(name);
+    if (!profile) {
+      console.error(`Profile "${name}" not found.`);
+      process.exit(1);
+    }
+    return profile;
+  }
+
+  const project = resolveProjectOrExit(loadProfile);
+  if (!project) {
+    console.error(`No profile given and no ${PROJECT_FILES.join(' or ')} found in this directory or its parents.`);
+    process.exit(1);
+  }
+  return project.profile;
+}
+
+// Loads profiles with load, collecting every value resolved from a secret reference (env:, file:,
+// cmd:, op://) so each output path can mask or leave it out
+function collectingSecrets(load: ProfileLoader, secrets: Set<string>): ProfileLoader {
+  return name => {
+    const profile = load(name);
+    const stored = config.getProfiles()[name];
+    if (profile && stored) {
+      for (const field of findSecretReferences(stored)) {
+        const value = field === 'apiKey' ? profile.apiKey : profile.extraEnv?.[field.slice('extraEnv.'.length)];
+        if (value) secrets.add(value);
+      }
+    }
+    return profile;
+  };
+}
+
+// Values that must not show up in the job log: the API key and anything resolved from a reference
+function secretValues(env: EnvVars, secrets: Set<string>): string[] {
+  return [...SECRET_VARS.map(key => env[key] || ''), ...secrets].filter(Boolean);
+}
+
+// GitHub hides registered values in the rest of the job's log; multi-line values are registered line by line
+function printMasks(values: string[]): void {
+  for (const value of values) {
+    for (const line of value.split(/\r?\n/)) {
+      if (line) console.log(`::add-mask::${line}`);
+    }
+  }
+}
+
+// Multi-line safe GITHUB_ENV entry, like @actions/core's exportVariable
+function githubEnvEntry(key: string, value: string): string {
+  const delimiter = `ghadelimiter_${randomUUID()}`;
+  return `${key}<<${delimiter}\n${value}\n${delimiter}\n`;
+}
+
+export function runCi(name: string | undefined, options: CiOptions): void {
+  const apiKeyEnv = options.apiKeyEnv || DEFAULT_API_KEY_ENV;
+  if (!isValidEnvKey(apiKeyEnv)) {
+    console.error(`Invalid environment variable name "${apiKeyEnv}"`);
+    process.exit(1);
+  }
+
+  // The encrypted store can't be decrypted on a runner (the key is tied to hostname and user),
+  // so a CI secret takes precedence and the stored key isn't even opened
+  const secretFromEnv = process.env[apiKeyEnv];
+  if (!secretFromEnv && options.apiKeyEnv) {
+    console.error(`${apiKeyEnv} is not set. Expose the CI secret to this step as ${apiKeyEnv}.`);
+    process.exit(1);
+  }
+  const secrets = new Set<string>();
+  const load = collectingSecrets(secretFromEnv ? config.getProfileWithoutApiKey : config.getProfile, secrets);
+  const profile = { ...resolveCiProfile(name, load) };
+  if (secretFromEnv) {
+    profile.apiKey = secretFromEnv;
+  }
+
+  const dotenvFile = options.dotenv || (!process.env.GITHUB_ENV && process.env.GITLAB_CI ? DEFAULT_DOTENV_FILE : undefined);
+
+  if (dotenvFile) {
+    writeDotenv(profile, dotenvFile, Boolean(options.includeSecrets), secrets);
+  } else if (process.env.GITHUB_ENV) {
+    writeGithubEnv(profile, process.env.GITHUB_ENV, secrets);
+  } else {
+    console.error('No CI environment detected ($GITHUB_ENV or $GITLAB_CI). Use --dotenv <file> to write a dotenv file.');
+    process.exit(1);
+  }
+}
+
+function writeGithubEnv(profile: Profile, file: string, secrets: Set<string>): void {
+  const env: EnvVars = { ...generateEnvVars(profile), CCX_ACTIVE_PROFILE: profile.name };
+
+  // Mask before anything else can print the values
+  printMasks(secretValues(env, secrets));
+
+  let content = '';
+  for (const [key, value] of Object.entries(env)) {
+    if (value === undefined) continue;
+    if (!isValidEnvKey(key)) {
+      console.error(`Invalid environment variable name "${key}"`);
+      process.exit(1);
+    }
+    // GITHUB_ENV can't unset, so cleared variables are set to empty for later steps
+    content += githubEnvEntry(key, value);
+  }
+
+  fs.appendFileSync(file, content);
+  console.log(`Exported profile "${profile.name}" to $GITHUB_ENV: ${Object.keys(env).join(', ')}`);
+}
+
+function writeDotenv(profile: Profile, file: string, includeSecrets: boolean, secrets: Set<string>): void {
+  // --dotenv on GitHub: whatever reaches the artifact or later steps stays out of the log
+  if (process.env.GITHUB_ACTIONS) {
+    printMasks(secretValues(generateEnvVars(profile), secrets));
+  }
+
+  const { env, omitted } = getExportEnv(profile, includeSecrets);
+  if (!includeSecrets) {
+    // Resolved references look like any other value, so they're left out by where they came from
+    for (const [key, value] of Object.entries(env)) {
+      if (secrets.has(value)) {
+        delete env[key];
+        omitted.push(key);
+      }
+    }
+  }
+
+  let content: string;
+  try {
+    // KEY=value with nothing quoted, as GitLab's dotenv report expects
+    content = formatEnvFile(env, 'docker', profile.name);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+
+  fs.writeFileSync(file, `${content}\n`);
+  console.log(`Wrote profile "${profile.name}" to ${file}: ${Object.keys(env).join(', ')}`);
+  if (omitted.length > 0) {
+    console.log(`Omitted ${omitted.join(', ')}. Pass --include-secrets to write secrets into the artifact.`);
+  }
+}
@@ -0,0 +1,24 @@
+// `ccx __complete <source>`: values for the generated completion scripts, one per line.
+// Called on every Tab, so it only reads the store snapshot.
+
+import { readStoreSnapshot } from '../lib/store.js';
+
+export function completeValues(source: string | undefined): void {
+  const store = readStoreSnapshot();
+  let values: string[];
+
+  switch (source) {
+    case 'profiles':
+      values = Object.keys(store.profiles || {});
+      break;
+    case 'user-templates':
+      values = Object.keys(store.templates || {});
+      break;
+    default:
+      values = [];
+  }
+
+  if (values.length > 0) {
+    process.stdout.write(values.sort().join('\n') + '\n');
+  }
+}
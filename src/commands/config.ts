@@ -0,0 +1,140 @@
+// Managing the config store itself: settings and schema migrations
+
+import * as config from '../lib/config.js';
+import { resolveExecutable } from '../lib/exec.js';
+import { CONFIG_SCHEMA_VERSION } from '../lib/migrations.js';
+import { isSecretReference } from '../lib/secrets.js';
+import {
+  canUnsetSetting,
+  isSettingKey,
+  parseSettingValue,
+  SettingKey,
+  SETTING_DESCRIPTIONS,
+  SETTING_KEYS
+} from '../lib/settings.js';
+import { detectShell } from '../lib/shell.js';
+import { Settings } from '../types.js';
+
+function printSteps(steps: config.MigrationStep[], log: (line: string) => void): void {
+  for (const step of steps) {
+    log(`v${step.version}: ${step.description}`);
+    for (const change of step.changes) {
+      log(`  ${change}`);
+    }
+    if (step.changes.length === 0) {
+      log('  (no changes to existing profiles)');
+    }
+    if (step.backup) {
+      log(`  backup: ${step.backup}`);
+    }
+  }
+}
+
+// Run before every command, so an older store is upgraded before anything reads it.
+// Reports on stderr, which `eval "$(ccx use ...)"` leaves alone.
+export function upgradeConfig(): void {
+  const steps = config.migrateStore();
+  if (steps.length > 0) {
+    console.error(`Upgraded the ccx config to schema v${CONFIG_SCHEMA_VERSION}:`);
+    printSteps(steps, line => console.error(line));
+  }
+}
+
+export function migrateConfig(options: { dryRun?: boolean }): void {
+  const steps = config.migrateStore(Boolean(options.dryRun));
+  if (steps.length === 0) {
+    console.log(`The config is up to date (schema v${CONFIG_SCHEMA_VERSION}).`);
+    return;
+  }
+
+  console.log(options.dryRun
+    ? `Would upgrade the config to schema v${CONFIG_SCHEMA_VERSION} (dry run, nothing written):`
+    : `Upgraded the config to schema v${CONFIG_SCHEMA_VERSION}:`);
+  printSteps(steps, line => console.log(line));
+}
+
+function requireSettingKey(key: string): SettingKey {
+  if (!isSettingKey(key)) {
+    console.error(`Unknown setting "${key}". Settings: ${SETTING_KEYS.join(', ')}`);
+    process.exit(1);
+  }
+  return key;
+}
+
+export function listSettings(): void {
+  const settings = config.getSettings();
+  const width = Math.max(...SETTING_KEYS.map(key => key.length)) + 2;
+
+  for (const key of SETTING_KEYS) {
+    const value = settings[key];
+    let shown = value === undefined ? '(not set)' : String(value);
+    if (key === 'defaultShell' && value === undefined) shown += `, detected: ${detectShell()}`;
+    console.log(`${key.padEnd(width)}${shown}`);
+    console.log(`${''.padEnd(width)}${SETTING_DESCRIPTIONS[key]}`);
+  }
+  console.log(`${'passphrase'.padEnd(width)}${settings.passphrase ? 'set' : '(not set)'}`);
+  console.log(`${''.padEnd(width)}Master passphrase for API keys; change it with ccx passphrase set|remove`);
+}
+
+// Prints nothing and exits with 1 when the setting isn't set, so scripts can test for it
+export function getSetting(key: string): void {
+  const value = config.getSettings()[requireSettingKey(key)];
+  if (value === undefined) process.exit(1);
+  console.log(String(value));
+}
+
+function countStoredKeys(): number {
+  return Object.values(config.getProfiles())
+    .filter(profile => profile.apiKey && !isSecretReference(profile.apiKey)).length;
+}
+
+function setEncryption(enabled: boolean): void {
+  if (config.getPassphraseSettings()) {
+    console.error('API keys are encrypted with the master passphrase. Remove it first with: ccx passphrase remove');
+    process.exit(1);
+  }
+  if (config.getSettings().encryptionEnabled === enabled) {
+    console.log(`encryptionEnabled is already ${enabled}.`);
+    return;
+  }
+
+  config.setEncryptionEnabled(enabled);
+  console.log(enabled
+    ? `Encryption turned on. Encrypted ${countStoredKeys()} API key(s).`
+    : `Encryption turned off. Decrypted ${countStoredKeys()} API key(s); they are now stored in plain text.`);
+}
+
+export function setSetting(key: string, value: string): void {
+  const settingKey = requireSettingKey(key);
+
+  let parsed: Settings[SettingKey];
+  try {
+    parsed = parseSettingValue(settingKey, value);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+
+  // Switching encryption has to convert the stored keys too
+  if (settingKey === 'encryptionEnabled') {
+    setEncryption(parsed as boolean);
+    return;
+  }
+
+  config.updateSettings({ [settingKey]: parsed });
+  console.log(`Set ${settingKey} to ${value}.`);
+  if (settingKey === 'claudePath' && !resolveExecutable(value)) {
+    console.log(`Note: ${value} is not an executable file (yet).`);
+  }
+}
+
+export function unsetSetting(key: string): void {
+  const settingKey = requireSettingKey(key);
+  if (!canUnsetSetting(settingKey)) {
+    console.error(`${settingKey} always has a value. Change it with: ccx config set ${settingKey} <value>`);
+    process.exit(1);
+  }
+
+  config.updateSettings({ [settingKey]: undefined });
+  console.log(`Unset ${settingKey}.`);
+}
@@ -0,0 +1,140 @@
+// Manage a profile's extra environment variables
+
+import * as config from '../lib/config.js';
+import { checkEnvKey } from '../lib/kinds.js';
+import { formatEnvFile, getExportEnv, isEnvFormat, ENV_FORMATS } from '../lib/envfile.js';
+
+// Parse KEY=VALUE pairs, rejecting keys ccx manages itself
+export function parseEnvAssignments(args: string[]): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const arg of args) {
+    const eq = arg.indexOf('=');
+    if (eq <= 0) {
+      throw new Error(`Invalid assignment "${arg}". Expected KEY=VALUE.`);
+    }
+    const key = arg.slice(0, eq);
+    const error = checkEnvKey(key);
+    if (error) {
+      throw new Error(error);
+    }
+    env[key] = arg.slice(eq + 1);
+  }
+  return env;
+}
+
+// Apply sets and unsets; returns undefined when nothing is left
+export function updateExtraEnv(
+  current: Record<string, string> | undefined,
+  set: Record<string, string>,
+  unset: string[]
+): Record<string, string> | undefined {
+  const env = { ...current, ...set };
+  for (const key of unset) {
+    delete env[key];
+  }
+  return Object.keys(env).length > 0 ? env : undefined;
+}
+
+export function listEnv(name: string): void {
+  const profile = config.getStoredProfile(name);
+
+  if (!profile) {
+    console.error(`Profile "${name}" not found.`);
+    process.exit(1);
+  }
+
+  const entries = Object.entries(profile.extraEnv || {});
+  if (entries.length === 0) {
+    console.log(`Profile "${name}" has no extra environment variables.`);
+    console.log('');
+    console.log('Add one with:');
+    console.log(`  ccx env ${name} set KEY=VALUE`);
+    return;
+  }
+
+  for (const [key, value] of entries.sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(`${key}=${value}`);
+  }
+}
+
+export function setEnv(name: string, assignments: string[]): void {
+  const profile = config.getStoredProfile(name);
+
+  if (!profile) {
+    console.error(`Profile "${name}" not found.`);
+    process.exit(1);
+  }
+
+  if (assignments.length === 0) {
+    console.error('Nothing to set. Usage: ccx env <profile> set KEY=VALUE [KEY=VALUE...]');
+    process.exit(1);
+  }
+
+  let env: Record<string, string>;
+  try {
+    env = parseEnvAssignments(assignments);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+
+  profile.extraEnv = updateExtraEnv(profile.extraEnv, env, []);
+  config.saveProfile(profile);
+  console.log(`Set ${Object.keys(env).join(', ')} on profile "${name}".`);
+}
+
+export function unsetEnv(name: string, keys: string[]): void {
+  const profile = config.getStoredProfile(name);
+
+  if (!profile) {
+    console.error(`Profile "${name}" not found.`);
+    process.exit(1);
+  }
+
+  if (keys.length === 0) {
+    console.error('Nothing to unset. Usage: ccx env <profile> unset KEY [KEY...]');
+    process.exit(1);
+  }
+
+  const missing = keys.filter(key => !(key in (profile.extraEnv || {})));
+  if (missing.length > 0) {
+    console.error(`Not set on profile "${name}": ${missing.join(', ')}`);
+    process.exit(1);
+  }
+
+  profile.extraEnv = updateExtraEnv(profile.extraEnv, {}, keys);
+  config.saveProfile(profile);
+  console.log(`Unset ${keys.join(', ')} on profile "${name}".`);
+}
+
+// Print the profile's full environment in a machine-readable format
+export function exportEnv(name: string, format: string, includeSecrets: boolean): void {
+  // Secret references are only resolved when secrets are wanted; otherwise they're left out
+  const profile = includeSecrets ? config.getProfile(name) : config.getStoredProfile(name);
+
+  if (!profile) {
+    console.error(`Profile "${name}" not found.`);
+    process.exit(1);
+  }
+
+  if (!isEnvFormat(format)) {
+    console.error(`Unknown format "${format}". Use one of: ${ENV_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const { env, omitted } = getExportEnv(profile, includeSecrets);
+  let output: string;
+  try {
+    output = formatEnvFile(env, format, profile.name);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+
+  console.log(output);
+
+  // stderr, so redirecting stdout to a file still gives a clean file
+  if (omitted.length > 0) {
+    console.error(`Omitted ${omitted.join(', ')}. Pass --include-secrets to include secrets.`);
+  }
+}
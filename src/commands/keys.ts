@@ -0,0 +1,113 @@
+// Checking and recovering stored API keys: `ccx keys verify` finds keys that no longer decrypt,
+// `ccx keys rekey` re-encrypts keys stored under an old hostname or username
+
+import * as os from 'os';
+import * as config from '../lib/config.js';
+import {
+  decrypt,
+  deriveHostKey,
+  isHostCiphertext,
+  openSecret,
+  DecryptionError,
+  KeysLockedError
+} from '../lib/encryption.js';
+import { isSecretReference } from '../lib/secrets.js';
+import { Profile } from '../types.js';
+
+// Profiles with a stored key, by name; references hold no key to decrypt
+function profilesWithKeys(): Profile[] {
+  return Object.values(config.getProfiles())
+    .filter(profile => profile.apiKey && !isSecretReference(profile.apiKey))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function verifyKeys(): void {
+  const profiles = profilesWithKeys();
+  if (profiles.length === 0) {
+    console.log('No profile has a stored API key.');
+    return;
+  }
+
+  const passphrase = config.getPassphraseSettings();
+  const failed: string[] = [];
+  let locked = 0;
+
+  for (const profile of profiles) {
+    try {
+      openSecret(profile.apiKey!, passphrase);
+      console.log(`  ok      ${profile.name}`);
+    } catch (e) {
+      if (e instanceof KeysLockedError) {
+        locked++;
+        console.log(`  locked  ${profile.name}`);
+      } else if (e instanceof DecryptionError) {
+        failed.push(profile.name);
+        console.log(`  FAILED  ${profile.name}: ${e.message}`);
+      } else {
+        throw e;
+      }
+    }
+  }
+
+  if (locked > 0) {
+    console.log('');
+    console.log('Run "ccx unlock" to check the keys protected by the master passphrase.');
+  }
+  if (failed.length > 0) {
+    console.log('');
+    console.log(`${failed.length} API key(s) cannot be decrypted. If this machine's hostname or your username changed, recover them with:`);
+    console.log('  ccx keys rekey --from-hostname OLD_HOSTNAME --from-user OLD_USER');
+    console.log('Otherwise set them again with: ccx edit <name> --api-key KEY');
+    process.exit(1);
+  }
+}
+
+export interface RekeyOptions {
+  fromHostname?: string;
+  fromUser?: string;  // Either defaults to the current value
+}
+
+export function rekeyKeys(options: RekeyOptions): void {
+  if (!options.fromHostname && !options.fromUser) {
+    console.error('Give the identity the keys were stored under: --from-hostname and/or --from-user.');
+    process.exit(1);
+  }
+
+  const hostname = options.fromHostname || os.hostname();
+  const user = options.fromUser || os.userInfo().username;
+  const oldKey = deriveHostKey(hostname, user);
+
+  const rekeyed: Record<string, string> = {};
+  const failed: string[] = [];
+  for (const profile of profilesWithKeys()) {
+    const stored = profile.apiKey!;
+    // Passphrase-encrypted and unencrypted keys don't depend on the machine
+    if (!isHostCiphertext(stored)) continue;
+    try {
+      decrypt(stored);
+      continue;  // Already readable here
+    } catch (e) {
+      if (!(e instanceof DecryptionError)) throw e;
+    }
+
+    try {
+      rekeyed[profile.name] = config.sealApiKey(decrypt(stored, oldKey));
+    } catch (e) {
+      if (!(e instanceof DecryptionError)) throw e;
+      failed.push(profile.name);
+    }
+  }
+
+  const names = Object.keys(rekeyed);
+  if (names.length > 0) {
+    config.replaceApiKeys(rekeyed);
+    console.log(`Re-encrypted ${names.length} API key(s) stored under hostname "${hostname}" and user "${user}": ${names.join(', ')}`);
+  } else if (failed.length === 0) {
+    console.log('Every stored API key already decrypts on this machine. Nothing to do.');
+  }
+
+  if (failed.length > 0) {
+    console.error(`Cannot decrypt with hostname "${hostname}" and user "${user}": ${failed.join(', ')}`);
+    process.exit(1);
+  }
+}
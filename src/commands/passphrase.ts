@@ -0,0 +1,132 @@
+// Master passphrase for API keys: `ccx passphrase set/remove` switch the encryption scheme,
+// `ccx unlock`/`ccx lock` open and close a time-limited session
+
+import { password } from '@inquirer/prompts';
+import * as config from '../lib/config.js';
+import {
+  createPassphraseSettings,
+  decrypt,
+  decryptWithKey,
+  deriveKey,
+  encryptWithKey,
+  isPassphraseCiphertext,
+  verifyKey
+} from '../lib/encryption.js';
+import { isSecretReference } from '../lib/secrets.js';
+import { clearSession, writeSession, DEFAULT_UNLOCK_MINUTES } from '../lib/session.js';
+import { PassphraseSettings } from '../types.js';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+let stdinLines: string[] | undefined;
+
+async function readStdin(): Promise<string> {
+  let data = '';
+  for await (const chunk of process.stdin) {
+    data += chunk;
+  }
+  return data;
+}
+
+// Prompt on a terminal; when stdin is piped, read one passphrase per line
+async function readPassphrase(message: string): Promise<string> {
+  if (process.stdin.isTTY) {
+    return password({ message, mask: '*' });
+  }
+
+  stdinLines ??= (await readStdin()).split(/\r?\n/);
+  const line = stdinLines.shift();
+  if (!line) {
+    console.error(`${message} expected another line on stdin.`);
+    process.exit(1);
+  }
+  return line;
+}
+
+async function askForKey(settings: PassphraseSettings): Promise<Buffer> {
+  const key = deriveKey(await readPassphrase('Master passphrase:'), settings);
+  if (!verifyKey(key, settings)) {
+    console.error('Wrong passphrase.');
+    process.exit(1);
+  }
+  return key;
+}
+
+function startSession(key: Buffer, settings: PassphraseSettings, minutes: number): void {
+  try {
+    const expiresAt = writeSession(key, settings, minutes);
+    console.log(`Unlocked until ${new Date(expiresAt).toLocaleTimeString()}. Run "ccx lock" to lock now.`);
+  } catch (e) {
+    console.error(`Cannot store the unlocked session: ${(e as Error).message}`);
+    process.exit(1);
+  }
+}
+
+function countApiKeys(): number {
+  return Object.values(config.getProfiles())
+    .filter(profile => profile.apiKey && !isSecretReference(profile.apiKey)).length;
+}
+
+export async function setPassphrase(): Promise<void> {
+  const current = config.getPassphraseSettings();
+  let open: (stored: string) => string = decrypt;
+  if (current) {
+    const oldKey = await askForKey(current);
+    open = stored => isPassphraseCiphertext(stored) ? decryptWithKey(stored, oldKey) : decrypt(stored);
+  }
+
+  const next = await readPassphrase(current ? 'New master passphrase:' : 'Master passphrase:');
+  if (next.length < MIN_PASSPHRASE_LENGTH) {
+    console.error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    process.exit(1);
+  }
+  if (process.stdin.isTTY && await readPassphrase('Repeat it:') !== next) {
+    console.error('The passphrases do not match.');
+    process.exit(1);
+  }
+
+  const { settings, key } = createPassphraseSettings(next);
+  config.reencryptApiKeys(open, plain => encryptWithKey(plain, key), { passphrase: settings });
+
+  console.log(`Master passphrase ${current ? 'changed' : 'set'}. Re-encrypted ${countApiKeys()} API key(s).`);
+  startSession(key, settings, DEFAULT_UNLOCK_MINUTES);
+}
+
+export async function removePassphrase(): Promise<void> {
+  const current = config.getPassphraseSettings();
+  if (!current) {
+    console.error('No master passphrase is set.');
+    process.exit(1);
+  }
+
+  const key = await askForKey(current);
+  config.reencryptApiKeys(
+    stored => isPassphraseCiphertext(stored) ? decryptWithKey(stored, key) : decrypt(stored),
+    config.sealWithHostKey,
+    { passphrase: undefined }
+  );
+  clearSession();
+
+  console.log(`Master passphrase removed. Re-encrypted ${countApiKeys()} API key(s) with the host key.`);
+}
+
+export async function unlock(minutes: string): Promise<void> {
+  const settings = config.getPassphraseSettings();
+  if (!settings) {
+    console.error('No master passphrase is set. Set one with: ccx passphrase set');
+    process.exit(1);
+  }
+
+  const duration = Number(minutes);
+  if (!Number.isFinite(duration) || duration <= 0) {
+    console.error(`Invalid timeout "${minutes}". Give a number of minutes.`);
+    process.exit(1);
+  }
+
+  startSession(await askForKey(settings), settings, duration);
+}
+
+export function lock(): void {
+  clearSession();
+  console.log('Locked. API keys need "ccx unlock" again.');
+}
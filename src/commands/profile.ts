@@ -1,10 +1,47 @@
 // Profile management commands
 
 import * as config from '../lib/config.js';
-import { generateShellScript, generateResetScript, detectShell, generateEnvVars } from '../lib/shell.js';
-import { getTemplate, listTemplates } from '../templates/providers.js';
-import { Profile, ShellType } from '../types.js';
-import { spawn } from 'child_process';
+import {
+  generateShellScript,
+  generateResetScript,
+  generateRestoreScript,
+  detectShell,
+  generateEnvVars
+} from '../lib/shell.js';
+import {
+  getTemplate,
+  listTemplates,
+  isBuiltInTemplate,
+  validateTemplateParams,
+  applyTemplateParams
+} from '../templates/providers.js';
+import {
+  getProfileKind,
+  getKindVars,
+  isProfileKind,
+  validateProfileFields,
+  changeProfileKind,
+  isValidEnvKey,
+  PROFILE_KINDS,
+  MODEL_ROLES,
+  ROLE_LABELS
+} from '../lib/kinds.js';
+import { findProjectFile, resolveProjectProfile, ProfileLoader, ProjectProfile, PROJECT_FILES } from '../lib/project.js';
+import {
+  readEnvStack,
+  encodeEnvStack,
+  captureEnvFrame,
+  collapseEnvStack,
+  findHookFrame,
+  recoverApiKey,
+  PREVIOUS_ENV_VAR
+} from '../lib/stack.js';
+import { buildChildEnv, resolveExecutable, runSupervised } from '../lib/exec.js';
+import { isSecretReference } from '../lib/secrets.js';
+import { sanitizeImportedProfile, toSharedProfile } from '../lib/sharing.js';
+import { updateExtraEnv } from './env.js';
+import { isProjectTrusted } from './project.js';
+import { Profile, ProfileKind, ProviderTemplate, RoleModels, ShellType } from '../types.js';
 
 export function listProfiles(): void {
   const profiles = config.getProfiles();
@@ -32,7 +69,12 @@ export function listProfiles(): void {
     
     console.log(`${marker}${name}${activeLabel}`);
     console.log(`      Provider: ${profile.provider}`);
-    console.log(`      Base URL: ${profile.baseUrl}`);
+    if (profile.baseUrl) {
+      console.log(`      Base URL: ${profile.baseUrl}`);
+    }
+    if (profile.region) {
+      console.log(`      Region: ${profile.region}`);
+    }
     if (profile.model) {
       console.log(`      Model: ${profile.model}`);
     }
@@ -41,7 +83,8 @@ export function listProfiles(): void {
 }
 
 export function showProfile(name: string): void {
-  const profile = config.getProfile(name);
+  // The stored profile: the key is only shown masked, so it isn't decrypted (or unlocked)
+  const profile = config.getProfiles()[name];
   
   if (!profile) {
     console.error(`Profile "${name}" not found.`);
@@ -50,11 +93,41 @@ export function showProfile(name: string): void {
   
   console.log(`Profile: ${profile.name}`);
   console.log('─'.repeat(40));
+  const kind = getProfileKind(profile);
   console.log(`Provider:     ${profile.provider}`);
-  console.log(`Base URL:     ${profile.baseUrl}`);
+  console.log(`Kind:         ${kind}`);
+  console.log(`Base URL:     ${profile.baseUrl || (kind === 'anthropic' ? '(not set)' : '(default)')}`);
+  if (kind !== 'anthropic') {
+    console.log(`Region:       ${profile.region || '(not set)'}`);
+  }
+  if (kind === 'bedrock') {
+    console.log(`AWS Profile:  ${profile.awsProfile || '(default)'}`);
+  }
+  if (kind === 'vertex') {
+    console.log(`Project ID:   ${profile.projectId || '(not set)'}`);
+  }
   console.log(`Model:        ${profile.model || '(default)'}`);
-  console.log(`API Key:      ${profile.apiKey ? '********' : '(not set)'}`);
+  if (profile.roleModels) {
+    console.log('Role Models:');
+    for (const role of MODEL_ROLES) {
+      const model = profile.roleModels[role];
+      if (model) {
+        console.log(`  ${`${ROLE_LABELS[role]}:`.padEnd(12)}${model}`);
+      }
+    }
+  }
+  const apiKey = profile.apiKey && (isSecretReference(profile.apiKey) ? profile.apiKey : '********');
+  console.log(`API Key:      ${apiKey || '(not set)'}`);
   console.log(`Clear Key:    ${profile.clearAnthropicKey ? 'Yes' : 'No'}`);
+  if (profile.extraEnv && Object.keys(profile.extraEnv).length > 0) {
+    console.log(`Extra Env:    ${Object.keys(profile.extraEnv).join(', ')}`);
+  }
+  if (profile.claudeArgs) {
+    console.log(`Claude Args:  ${profile.claudeArgs.join(' ')}`);
+  }
+  if (profile.claudePath) {
+    console.log(`Claude Path:  ${profile.claudePath}`);
+  }
   if (profile.description) {
     console.log(`Description:  ${profile.description}`);
   }
@@ -62,76 +135,163 @@ export function showProfile(name: string): void {
   console.log(`Updated:      ${profile.updatedAt}`);
 }
 
-export function createProfile(
-  name: string, 
-  options: {
-    template?: string;
-    baseUrl?: string;
-    model?: string;
-    apiKey?: string;
-    description?: string;
-    clearKey?: boolean;
-  }
-): void {
+export interface ProfileOptions {
+  template?: string;
+  kind?: string;
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+  description?: string;
+  clearKey?: boolean;
+  params?: Record<string, string>;
+  region?: string;
+  awsProfile?: string;
+  projectId?: string;
+  roleModels?: RoleModels;
+  env?: Record<string, string>;
+  unsetEnv?: string[];
+  claudeArgs?: string[];
+  claudePath?: string;
+}
+
+export function createProfile(name: string, options: ProfileOptions): void {
   if (config.profileExists(name)) {
     console.error(`Profile "${name}" already exists. Use 'ccx edit ${name}' to modify it.`);
     process.exit(1);
   }
   
+  const { profile, template } = buildProfile(name, options);
+  
+  if (template?.requiresApiKey && !options.apiKey) {
+    console.log(`Note: This template requires an API key.`);
+    if (template.setupInstructions) {
+      console.log(`Setup: ${template.setupInstructions}`);
+    }
+    console.log(`Add it with: ccx edit ${name} --api-key YOUR_KEY`);
+  }
+  
+  config.saveProfile(profile);
+  console.log(`Profile "${name}" created successfully.`);
+  console.log('');
+  console.log(`Activate it with:`);
+  console.log(`  eval "$(ccx use ${name})"`);
+}
+
+// Build a profile from flags, merged over a template when one is given; exits on invalid input.
+// Nothing is saved, so `ccx run` can also use it for one-off runs.
+function buildProfile(name: string, options: ProfileOptions): { profile: Profile; template?: ProviderTemplate } {
+  if (options.kind && !isProfileKind(options.kind)) {
+    console.error(`Unknown kind "${options.kind}". Expected one of: ${PROFILE_KINDS.join(', ')}`);
+    process.exit(1);
+  }
+  
   let profile: Profile;
+  let template: ProviderTemplate | undefined;
   
   if (options.template) {
-    const template = getTemplate(options.template);
-    if (!template) {
+    const rawTemplate = getTemplate(options.template);
+    if (!rawTemplate) {
       console.error(`Template "${options.template}" not found.`);
       console.log('Available templates:');
       listTemplates().forEach(t => console.log(`  - ${t.name}: ${t.description}`));
       process.exit(1);
     }
-    
+
+    const paramErrors = validateTemplateParams(rawTemplate, options.params || {});
+    if (paramErrors.length > 0) {
+      paramErrors.forEach(e => console.error(e));
+      process.exit(1);
+    }
+    template = applyTemplateParams(rawTemplate, options.params || {});
+
     profile = {
       name,
       description: options.description || template.description,
       provider: template.name,
+      kind: (options.kind as ProfileKind) || template.kind,
       baseUrl: options.baseUrl || template.baseUrl,
       model: options.model || template.defaultModel,
+      region: options.region || template.defaultRegion,
+      awsProfile: options.awsProfile,
+      projectId: options.projectId,
+      roleModels: mergeRoleModels(undefined, options.roleModels),
       apiKey: options.apiKey,
       clearAnthropicKey: options.clearKey ?? template.clearAnthropicKey,
+      extraEnv: updateExtraEnv(template.extraEnv, options.env || {}, options.unsetEnv || []),
+      claudeArgs: options.claudeArgs?.length ? options.claudeArgs : undefined,
+      claudePath: options.claudePath || undefined,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
-    
-    if (template.requiresApiKey && !options.apiKey) {
-      console.log(`Note: This template requires an API key.`);
-      if (template.setupInstructions) {
-        console.log(`Setup: ${template.setupInstructions}`);
-      }
-      console.log(`Add it with: ccx edit ${name} --api-key YOUR_KEY`);
-    }
   } else {
-    if (!options.baseUrl) {
+    const kind = (options.kind as ProfileKind) || 'anthropic';
+    if (kind === 'anthropic' && !options.baseUrl) {
       console.error('Either --template or --base-url is required.');
       process.exit(1);
     }
+
+    if (options.params && Object.keys(options.params).length > 0) {
+      console.error('--param can only be used with --template.');
+      process.exit(1);
+    }
     
     profile = {
       name,
       description: options.description,
-      provider: 'custom',
-      baseUrl: options.baseUrl,
+      provider: kind === 'anthropic' ? 'custom' : kind,
+      kind: kind === 'anthropic' ? undefined : kind,
+      baseUrl: options.baseUrl || '',
       model: options.model,
+      region: options.region,
+      awsProfile: options.awsProfile,
+      projectId: options.projectId,
+      roleModels: mergeRoleModels(undefined, options.roleModels),
       apiKey: options.apiKey,
       clearAnthropicKey: options.clearKey ?? true,
+      extraEnv: updateExtraEnv(undefined, options.env || {}, []),
+      claudeArgs: options.claudeArgs?.length ? options.claudeArgs : undefined,
+      claudePath: options.claudePath || undefined,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
   }
   
-  config.saveProfile(profile);
-  console.log(`Profile "${name}" created successfully.`);
-  console.log('');
-  console.log(`Activate it with:`);
-  console.log(`  eval "$(ccx use ${name})"`);
+  const fieldErrors = validateProfileFields(profile);
+  if (fieldErrors.length > 0) {
+    fieldErrors.forEach(e => console.error(e));
+    printKindHint(getProfileKind(profile));
+    process.exit(1);
+  }
+  
+  return { profile, template };
+}
+
+// Apply role model updates; an empty string removes the mapping
+function mergeRoleModels(current: RoleModels | undefined, updates: RoleModels | undefined): RoleModels | undefined {
+  const merged: RoleModels = { ...current };
+  for (const role of MODEL_ROLES) {
+    const value = updates?.[role];
+    if (value === '') {
+      delete merged[role];
+    } else if (value !== undefined) {
+      merged[role] = value;
+    }
+  }
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+// Point at the flags that supply a kind's required fields
+function printKindHint(kind: ProfileKind): void {
+  switch (kind) {
+    case 'bedrock':
+      console.error('Pass --region (and optionally --aws-profile).');
+      break;
+    case 'vertex':
+      console.error('Pass --region and --project-id.');
+      break;
+    default:
+      console.error('Pass --base-url.');
+  }
 }
 
 export function editProfile(
@@ -142,20 +302,56 @@ export function editProfile(
     apiKey?: string;
     description?: string;
     clearKey?: boolean;
+    kind?: string;
+    region?: string;
+    awsProfile?: string;
+    projectId?: string;
+    roleModels?: RoleModels;
+    env?: Record<string, string>;
+    unsetEnv?: string[];
+    claudeArgs?: string[];  // Replaces the list; empty removes it
+    claudePath?: string;
   }
 ): void {
-  const profile = config.getProfile(name);
+  const profile = config.getStoredProfile(name);
   
   if (!profile) {
     console.error(`Profile "${name}" not found.`);
     process.exit(1);
   }
   
+  if (options.kind !== undefined) {
+    if (!isProfileKind(options.kind)) {
+      console.error(`Unknown kind "${options.kind}". Expected one of: ${PROFILE_KINDS.join(', ')}`);
+      process.exit(1);
+    }
+    // Fields given alongside --kind are applied below, after the old kind's are cleared
+    const cleared = changeProfileKind(profile, options.kind);
+    if (cleared.length > 0) {
+      console.log(`Note: Switching to ${options.kind} cleared ${cleared.join(', ')}.`);
+    }
+  }
   if (options.baseUrl !== undefined) profile.baseUrl = options.baseUrl;
   if (options.model !== undefined) profile.model = options.model;
   if (options.apiKey !== undefined) profile.apiKey = options.apiKey;
   if (options.description !== undefined) profile.description = options.description;
   if (options.clearKey !== undefined) profile.clearAnthropicKey = options.clearKey;
+  if (options.region !== undefined) profile.region = options.region || undefined;
+  if (options.awsProfile !== undefined) profile.awsProfile = options.awsProfile || undefined;
+  if (options.projectId !== undefined) profile.projectId = options.projectId || undefined;
+  if (options.roleModels) profile.roleModels = mergeRoleModels(profile.roleModels, options.roleModels);
+  if (options.env || options.unsetEnv) {
+    profile.extraEnv = updateExtraEnv(profile.extraEnv, options.env || {}, options.unsetEnv || []);
+  }
+  if (options.claudeArgs) profile.claudeArgs = options.claudeArgs.length > 0 ? options.claudeArgs : undefined;
+  if (options.claudePath !== undefined) profile.claudePath = options.claudePath || undefined;
+  
+  const fieldErrors = validateProfileFields(profile);
+  if (fieldErrors.length > 0) {
+    fieldErrors.forEach(e => console.error(e));
+    printKindHint(getProfileKind(profile));
+    process.exit(1);
+  }
   
   config.saveProfile(profile);
   console.log(`Profile "${name}" updated successfully.`);
@@ -176,32 +372,124 @@ export function deleteProfileCommand(name: string, force: boolean = false): void
   console.log(`Profile "${name}" deleted.`);
 }
 
-export function useProfile(name: string, shell?: ShellType): void {
-  const profile = config.getProfile(name);
-  
-  if (!profile) {
-    console.error(`Profile "${name}" not found.`);
+// Project profile for the cwd; exits with the file's error if it exists but is unusable
+export function resolveProjectOrExit(loadProfile: ProfileLoader = config.getProfile): ProjectProfile | undefined {
+  try {
+    return resolveProjectProfile(process.cwd(), loadProfile);
+  } catch (e) {
+    console.error((e as Error).message);
     process.exit(1);
   }
+}
+
+// --shell, then the defaultShell setting, then whatever the environment says
+function resolveShell(shell?: ShellType): ShellType {
+  return shell || config.getDefaultShell() || detectShell();
+}
+
+// Print a generated script, or exit when a name or value can't be written safely for the shell
+function printScript(generate: () => string): void {
+  try {
+    console.log(generate());
+  } catch (e) {
+    console.error(`Cannot generate shell script: ${(e as Error).message}`);
+    process.exit(1);
+  }
+}
+
+// Set by the directory hook: it only applies allowed project files, and marks its frame so its
+// pop undoes exactly what it applied
+export interface HookOptions {
+  hook?: boolean;
+}
+
+export function useProfile(name: string | undefined, shell?: ShellType, options: HookOptions = {}): void {
+  let profile: Profile | undefined;
+  let saved = true;
+  
+  if (options.hook && !name) {
+    const file = findProjectFile();
+    if (file && !isProjectTrusted(file)) {
+      console.error(`ccx: ${file} is not allowed. Review it, then run "ccx allow" to apply it on cd.`);
+      process.exit(1);
+    }
+  }
+  
+  if (name) {
+    profile = config.getProfile(name);
+    if (!profile) {
+      console.error(`Profile "${name}" not found.`);
+      process.exit(1);
+    }
+  } else {
+    const project = resolveProjectOrExit();
+    if (!project) {
+      console.error(`No profile given and no ${PROJECT_FILES.join(' or ')} found in this directory or its parents.`);
+      process.exit(1);
+    }
+    profile = project.profile;
+    saved = project.saved;
+  }
+  
+  // Remember what this replaces so `ccx pop` / `ccx reset` can put it back
+  const restored = recoverApiKey(profile);
+  const frame = captureEnvFrame([...Object.keys(generateEnvVars(profile)), ...Object.keys(restored), 'CCX_ACTIVE_PROFILE']);
+  if (options.hook) frame.hook = true;
+  const stack = [...readEnvStack(), frame];
   
-  const detectedShell = shell || detectShell();
-  const script = generateShellScript(profile, detectedShell);
+  const detectedShell = resolveShell(shell);
   
   // Output the script for eval
-  console.log(script);
+  printScript(() => generateShellScript(profile, detectedShell, encodeEnvStack(stack), restored));
   
-  // Update active profile in config
-  config.setActiveProfile(name);
+  // Update active profile in config (inline project profiles aren't stored)
+  if (saved) {
+    config.setActiveProfile(profile.name);
+  }
+}
+
+// Kind of the profile currently applied, so reset clears the right variables
+function getActiveKind(): ProfileKind {
+  const active = process.env.CCX_ACTIVE_PROFILE || config.getActiveProfile();
+  const profile = active ? config.getProfiles()[active] : undefined;
+  return profile ? getProfileKind(profile) : 'anthropic';
 }
 
+// Restore the environment from before the first `ccx use`, or unset ccx's variables
+// when the shell has no recorded stack (e.g. it was set up by an older ccx)
 export function resetEnvironment(shell?: ShellType): void {
-  const detectedShell = shell || detectShell();
-  const script = generateResetScript(detectedShell);
+  const detectedShell = resolveShell(shell);
+  const stack = readEnvStack();
   
-  console.log(script);
+  printScript(() => stack.length > 0
+    ? generateRestoreScript(detectedShell, collapseEnvStack(stack))
+    : generateResetScript(detectedShell, getActiveKind()));
   config.setActiveProfile(null);
 }
 
+// Undo the most recent `ccx use`, going back to the previous profile (or none)
+// The hook pops back to before its own frame, also undoing any `ccx use` made inside the project,
+// and does nothing once a reset has cleared its frame
+export function popEnvironment(shell?: ShellType, options: HookOptions = {}): void {
+  const stack = readEnvStack();
+  const start = options.hook ? findHookFrame(stack) : stack.length - 1;
+  
+  if (start < 0) {
+    if (options.hook) return;
+    console.error('Nothing to pop: no profile was applied with ccx use in this shell.');
+    process.exit(1);
+  }
+  
+  const vars = collapseEnvStack(stack.slice(start));
+  const below = stack.slice(0, start);
+  const detectedShell = resolveShell(shell);
+  const remaining = below.length > 0 ? encodeEnvStack(below) : undefined;
+  printScript(() => generateRestoreScript(detectedShell, vars, remaining));
+  
+  const previous = vars.CCX_ACTIVE_PROFILE;
+  config.setActiveProfile(previous && config.profileExists(previous) ? previous : null);
+}
+
 export function showCurrent(): void {
   const activeProfile = config.getActiveProfile();
   const envProfile = process.env.CCX_ACTIVE_PROFILE;
@@ -210,41 +498,68 @@ export function showCurrent(): void {
   console.log('─'.repeat(40));
   console.log(`Config active:  ${activeProfile || '(none)'}`);
   console.log(`Shell active:   ${envProfile || '(none)'}`);
+  try {
+    const project = resolveProjectProfile(process.cwd(), config.getProfile);
+    if (project) {
+      const label = project.saved ? project.profile.name : `${project.profile.name} (inline)`;
+      console.log(`Project:        ${label} from ${project.source}`);
+    } else {
+      console.log('Project:        (none)');
+    }
+  } catch (e) {
+    console.log(`Project:        invalid - ${(e as Error).message}`);
+  }
   console.log('');
   console.log('Environment Variables:');
   console.log(`  ANTHROPIC_BASE_URL:   ${process.env.ANTHROPIC_BASE_URL || '(not set)'}`);
   console.log(`  ANTHROPIC_AUTH_TOKEN: ${process.env.ANTHROPIC_AUTH_TOKEN ? '********' : '(not set)'}`);
   console.log(`  ANTHROPIC_MODEL:      ${process.env.ANTHROPIC_MODEL || '(not set)'}`);
   console.log(`  ANTHROPIC_API_KEY:    ${process.env.ANTHROPIC_API_KEY ? '********' : '(not set)'}`);
+  if (process.env.CLAUDE_CODE_USE_BEDROCK) {
+    console.log(`  CLAUDE_CODE_USE_BEDROCK: ${process.env.CLAUDE_CODE_USE_BEDROCK}`);
+    console.log(`  AWS_REGION:           ${process.env.AWS_REGION || '(not set)'}`);
+    console.log(`  AWS_PROFILE:          ${process.env.AWS_PROFILE || '(not set)'}`);
+  }
+  if (process.env.CLAUDE_CODE_USE_VERTEX) {
+    console.log(`  CLAUDE_CODE_USE_VERTEX: ${process.env.CLAUDE_CODE_USE_VERTEX}`);
+    console.log(`  CLOUD_ML_REGION:      ${process.env.CLOUD_ML_REGION || '(not set)'}`);
+    console.log(`  ANTHROPIC_VERTEX_PROJECT_ID: ${process.env.ANTHROPIC_VERTEX_PROJECT_ID || '(not set)'}`);
+  }
 }
 
 export function showTemplates(): void {
   console.log('Available Provider Templates:\n');
   
   for (const template of listTemplates()) {
-    console.log(`  ${template.name}`);
+    const userLabel = isBuiltInTemplate(template.name) ? '' : ' (user)';
+    console.log(`  ${template.name}${userLabel}`);
     console.log(`    ${template.displayName}`);
     console.log(`    ${template.description}`);
     if (template.defaultModel) {
       console.log(`    Default model: ${template.defaultModel}`);
     }
+    if (template.params && template.params.length > 0) {
+      const params = template.params.map(p => p.default !== undefined ? `${p.name}=${p.default}` : `${p.name} (required)`);
+      console.log(`    Params: ${params.join(', ')}`);
+    }
+    if (template.setupInstructions) {
+      console.log(`    Setup: ${template.setupInstructions}`);
+    }
     console.log('');
   }
   
-  console.log('Usage: ccx create <name> --template <template-name>');
+  console.log('Usage: ccx create <name> --template <template-name> [--param name=value]');
 }
 
 export function exportProfile(name: string): void {
-  const profile = config.getProfile(name);
+  const profile = config.getStoredProfile(name);
   
   if (!profile) {
     console.error(`Profile "${name}" not found.`);
     process.exit(1);
   }
   
-  // Export without the API key for safety
-  const exported = { ...profile, apiKey: undefined };
-  console.log(JSON.stringify(exported, null, 2));
+  console.log(JSON.stringify(toSharedProfile(profile), null, 2));
 }
 
 export function importProfile(jsonStr: string, name?: string): void {
@@ -265,6 +580,17 @@ export function importProfile(jsonStr: string, name?: string): void {
       process.exit(1);
     }
     
+    // An imported profile must not choose what `ccx run` executes
+    const claudePath = imported.claudePath;
+    const { errors, ignored } = sanitizeImportedProfile(imported);
+    if (errors.length > 0) {
+      console.error(`Cannot import profile "${imported.name}": ${errors.join('; ')}`);
+      process.exit(1);
+    }
+    if (ignored.includes('claudePath')) {
+      console.log(`Note: Ignored claudePath "${claudePath}". Set it with: ccx edit ${imported.name} --claude-path PATH`);
+    }
+    
     imported.createdAt = new Date().toISOString();
     imported.updatedAt = new Date().toISOString();
     
@@ -280,8 +606,8 @@ export function importProfile(jsonStr: string, name?: string): void {
   }
 }
 
-// Run Claude directly with a profile's environment
-export async function runWithProfile(name: string): Promise<void> {
+// Run Claude directly with a profile's environment; args are forwarded after the profile's claudeArgs
+export async function runWithProfile(name: string, args: string[] = []): Promise<void> {
   const profile = config.getProfile(name);
   
   if (!profile) {
@@ -289,60 +615,152 @@ export async function runWithProfile(name: string): Promise<void> {
     process.exit(1);
   }
   
-  const env = generateEnvVars(profile);
-  const childEnv: Record<string, string> = { ...process.env } as Record<string, string>;
+  await launchClaude(profile, true, args);
+}
+
+// Name of the transient profile when an ad-hoc run isn't saved
+const AD_HOC_PROFILE = 'ad-hoc';
+
+export interface AdHocRunOptions {
+  template?: string;
+  baseUrl?: string;
+  model?: string;
+  apiKeyEnv?: string;
+  params?: Record<string, string>;
+  save?: string;  // Profile name to save under once Claude exits successfully
+}
+
+// Run Claude with a profile built from flags. Nothing is stored (not even the active profile)
+// unless --save is given and the run succeeds.
+export async function runAdHoc(options: AdHocRunOptions, args: string[]): Promise<void> {
+  if (options.save && config.profileExists(options.save)) {
+    console.error(`Profile "${options.save}" already exists. Choose another --save name.`);
+    process.exit(1);
+  }
   
-  // Set the environment variables
-  for (const [key, value] of Object.entries(env)) {
-    if (value === '') {
-      delete childEnv[key];
-    } else if (value !== undefined) {
-      childEnv[key] = value;
+  let apiKey: string | undefined;
+  if (options.apiKeyEnv) {
+    if (!isValidEnvKey(options.apiKeyEnv)) {
+      console.error(`Invalid environment variable name "${options.apiKeyEnv}"`);
+      process.exit(1);
+    }
+    apiKey = process.env[options.apiKeyEnv];
+    if (!apiKey) {
+      console.error(`${options.apiKeyEnv} is not set.`);
+      process.exit(1);
     }
   }
-  childEnv['CCX_ACTIVE_PROFILE'] = name;
+  
+  const { profile } = buildProfile(options.save || AD_HOC_PROFILE, {
+    template: options.template,
+    baseUrl: options.baseUrl,
+    model: options.model,
+    apiKey,
+    params: options.params
+  });
+  
+  // The key came from a variable, so the saved profile keeps reading it from there (env:NAME)
+  const save = options.save ? () => {
+    config.saveProfile(options.apiKeyEnv ? { ...profile, apiKey: `env:${options.apiKeyEnv}` } : profile);
+    console.log(`Saved profile "${profile.name}". Run it again with: ccx run ${profile.name}`);
+  } : undefined;
+  
+  await launchClaude(profile, false, args, save);
+}
+
+// Run any program with a profile's environment, exiting the way it does
+export async function execWithProfile(name: string, command: string[]): Promise<void> {
+  const profile = config.getProfile(name);
+  
+  if (!profile) {
+    console.error(`Profile "${name}" not found.`);
+    process.exit(1);
+  }
+  
+  const [program, ...args] = command;
+  if (!program) {
+    console.error('No command given. Usage: ccx exec <profile> [--] <command> [args...]');
+    process.exit(1);
+  }
+  await runSupervised(program, args, buildChildEnv(profile));
+}
+
+// Run Claude with the project profile for the cwd, falling back to the default settings
+export async function runProject(args: string[] = []): Promise<void> {
+  const project = resolveProjectOrExit();
+  
+  if (!project) {
+    await runReset(args);
+    return;
+  }
+  
+  console.log(`Using project profile from ${project.source}`);
+  await launchClaude(project.profile, project.saved, args);
+}
+
+// The profile's executable, then CCX_CLAUDE_PATH, then the global setting, resolved against the
+// child's PATH. Exits with install instructions when there's nothing to run.
+function resolveClaudeOrExit(env: NodeJS.ProcessEnv, profile?: Profile): string {
+  const command = profile?.claudePath || process.env.CCX_CLAUDE_PATH || config.getClaudePath() || 'claude';
+  const file = resolveExecutable(command, env);
+  if (file) return file;
+  
+  if (command === 'claude') {
+    console.error('Claude Code (claude) was not found on your PATH.');
+    console.error('Install it with:  npm install -g @anthropic-ai/claude-code');
+  } else {
+    console.error(`Claude Code executable "${command}" was not found or is not executable.`);
+  }
+  const target = profile ? `ccx edit ${profile.name} --claude-path PATH` : 'the CCX_CLAUDE_PATH environment variable';
+  console.error(`If it's installed elsewhere, point ccx at it with ${target}`);
+  process.exit(127);
+}
+
+async function launchClaude(profile: Profile, saved: boolean, args: string[], onSuccess?: () => void): Promise<void> {
+  const name = profile.name;
+  const childEnv = buildChildEnv(profile);
+  const claude = resolveClaudeOrExit(childEnv, profile);
   
   // Update active profile in config
-  config.setActiveProfile(name);
+  if (saved) {
+    config.setActiveProfile(name);
+  }
   
   console.log(`Launching Claude with profile: ${name}`);
   console.log(`Model: ${profile.model || '(default)'}`);
   console.log('');
   
   // Spawn claude with the modified environment
-  const child = spawn('claude', [], {
-    env: childEnv,
-    stdio: 'inherit',
-    shell: true
-  });
-  
-  child.on('close', (code) => {
-    process.exit(code || 0);
-  });
+  await runSupervised(claude, [...(profile.claudeArgs || []), ...args], childEnv, onSuccess);
 }
 
 // Run Claude with reset environment (official)
-export async function runReset(): Promise<void> {
-  const childEnv: Record<string, string> = { ...process.env } as Record<string, string>;
-  
-  // Remove ccx-related env vars
-  delete childEnv['ANTHROPIC_BASE_URL'];
-  delete childEnv['ANTHROPIC_AUTH_TOKEN'];
-  delete childEnv['ANTHROPIC_MODEL'];
-  delete childEnv['CCX_ACTIVE_PROFILE'];
+export async function runReset(args: string[] = []): Promise<void> {
+  const childEnv: NodeJS.ProcessEnv = { ...process.env };
+  
+  // Restore the pre-ccx environment when the shell recorded one, else remove ccx-related env vars
+  const stack = readEnvStack();
+  if (stack.length > 0) {
+    for (const [key, value] of Object.entries(collapseEnvStack(stack))) {
+      if (value) {
+        childEnv[key] = value;
+      } else {
+        delete childEnv[key];
+      }
+    }
+  } else {
+    for (const key of getKindVars(getActiveKind())) {
+      delete childEnv[key];
+    }
+    delete childEnv['CCX_ACTIVE_PROFILE'];
+  }
+  delete childEnv[PREVIOUS_ENV_VAR];
   
+  const claude = resolveClaudeOrExit(childEnv);
   config.setActiveProfile(null);
   
   console.log('Launching Claude with default settings');
   console.log('');
   
-  const child = spawn('claude', [], {
-    env: childEnv,
-    stdio: 'inherit',
-    shell: true
-  });
-  
-  child.on('close', (code) => {
-    process.exit(code || 0);
-  });
+  await runSupervised(claude, args, childEnv);
 }
@@ -0,0 +1,40 @@
+// Allowing project files for the directory hook (like `direnv allow`)
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as config from '../lib/config.js';
+import { findProjectFile, fingerprintProjectFile, PROJECT_FILES } from '../lib/project.js';
+
+// A project file given directly, or the nearest one from a directory (the cwd by default)
+function locateProjectFile(target?: string): string {
+  const start = path.resolve(target || '.');
+  if (fs.existsSync(start) && fs.statSync(start).isFile()) return start;
+
+  const file = findProjectFile(start);
+  if (!file) {
+    console.error(`No ${PROJECT_FILES.join(' or ')} found in ${start} or its parents.`);
+    process.exit(1);
+  }
+  return file;
+}
+
+// Whether the file was allowed as it is now
+export function isProjectTrusted(file: string): boolean {
+  const { path: key, hash } = fingerprintProjectFile(file);
+  return config.getTrustedProjects()[key] === hash;
+}
+
+export function allowProject(target?: string): void {
+  const { path: key, hash } = fingerprintProjectFile(locateProjectFile(target));
+  config.trustProject(key, hash);
+  console.log(`Allowed ${key}. The directory hook applies it the next time you enter the directory.`);
+}
+
+export function denyProject(target?: string): void {
+  const { path: key } = fingerprintProjectFile(locateProjectFile(target));
+  if (!config.untrustProject(key)) {
+    console.error(`${key} is not allowed.`);
+    process.exit(1);
+  }
+  console.log(`Denied ${key}. The directory hook no longer applies it.`);
+}
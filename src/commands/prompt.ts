@@ -0,0 +1,70 @@
+// `ccx prompt`: a compact segment for PS1 and starship showing the active profile.
+// Runs on every prompt, so it only reads the store snapshot (no conf, commander or inquirer).
+
+import { readStoreSnapshot } from '../lib/store.js';
+import { openSecret } from '../lib/encryption.js';
+import { isSecretReference } from '../lib/secrets.js';
+import { generateEnvVars } from '../lib/shell.js';
+import { Profile } from '../types.js';
+
+export const PROMPT_SYMBOL = '⎈';
+
+// Appended when the shell no longer matches what `ccx use` set
+export const DRIFT_MARKER = '!';
+
+// Variables whose value differs from what the profile generates ('' means it should be unset)
+export function findDriftedVars(profile: Profile, env: NodeJS.ProcessEnv = process.env): string[] {
+  return Object.entries(generateEnvVars(profile))
+    .filter(([key, expected]) => expected !== undefined && (env[key] || '') !== expected)
+    .map(([key]) => key);
+}
+
+export function formatPromptSegment(env: NodeJS.ProcessEnv = process.env): string {
+  const name = env.CCX_ACTIVE_PROFILE;
+  if (!name) return '';
+
+  let segment = `${PROMPT_SYMBOL} ${name}`;
+  if (env.ANTHROPIC_MODEL) segment += `:${env.ANTHROPIC_MODEL}`;
+
+  // Inline project profiles aren't in the store, so only saved profiles are checked for drift
+  const store = readStoreSnapshot();
+  const stored = store.profiles?.[name];
+  if (stored) {
+    // Secret references aren't resolved on every prompt: those values aren't checked
+    let apiKey: string | undefined;
+    try {
+      if (stored.apiKey && !isSecretReference(stored.apiKey)) {
+        apiKey = openSecret(stored.apiKey, store.settings?.passphrase);
+      }
+    } catch {
+      // Locked behind the master passphrase: check everything but the key
+    }
+    const extraEnv = stored.extraEnv &&
+      Object.fromEntries(Object.entries(stored.extraEnv).filter(([, value]) => !isSecretReference(value)));
+    if (findDriftedVars({ ...stored, apiKey, extraEnv }, env).length > 0) segment += DRIFT_MARKER;
+  }
+
+  return segment;
+}
+
+export function generateStarshipModule(): string {
+  return [
+    '# Add to ~/.config/starship.toml',
+    '[custom.ccx]',
+    'command = "ccx prompt"',
+    'when = \'test -n "$CCX_ACTIVE_PROFILE"\'',
+    'format = "[$output]($style) "',
+    'style = "bold purple"',
+    'description = "Active ccx profile"'
+  ].join('\n');
+}
+
+export function printPrompt(args: string[]): void {
+  if (args.includes('--starship')) {
+    console.log(generateStarshipModule());
+    return;
+  }
+
+  const segment = formatPromptSegment();
+  if (segment) console.log(segment);
+}
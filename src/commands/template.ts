@@ -0,0 +1,195 @@
+// User-defined provider template commands
+
+import * as config from '../lib/config.js';
+import { isBuiltInTemplate, findPlaceholders } from '../templates/providers.js';
+import { isProfileKind, PROFILE_KINDS } from '../lib/kinds.js';
+import { updateExtraEnv } from './env.js';
+import { ProfileKind, ProviderTemplate, TemplateParam } from '../types.js';
+
+interface TemplateOptions {
+  kind?: string;
+  region?: string;
+  displayName?: string;
+  description?: string;
+  baseUrl?: string;
+  model?: string;
+  requiresKey?: boolean;
+  clearKey?: boolean;
+  instructions?: string;
+  define?: string[];
+  env?: Record<string, string>;
+  unsetEnv?: string[];
+}
+
+// Parse --define name[=default] into param declarations
+function parseParamDefinitions(defs: string[]): TemplateParam[] {
+  return defs.map(def => {
+    const eq = def.indexOf('=');
+    const name = eq === -1 ? def : def.slice(0, eq);
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+      console.error(`Invalid parameter name "${name}".`);
+      process.exit(1);
+    }
+    return eq === -1 ? { name } : { name, default: def.slice(eq + 1) };
+  });
+}
+
+function checkPlaceholders(template: ProviderTemplate): void {
+  const declared = new Set((template.params || []).map(p => p.name));
+  const fields = [template.baseUrl, template.defaultModel || '', ...Object.values(template.extraEnv || {})];
+  const used = Array.from(new Set(fields.flatMap(findPlaceholders)));
+  const undeclared = used.filter(key => !declared.has(key));
+
+  if (undeclared.length > 0) {
+    console.error(`Undeclared parameters: ${undeclared.join(', ')}. Declare them with --define <name[=default]>.`);
+    process.exit(1);
+  }
+}
+
+export function listUserTemplates(): void {
+  const templates = Object.values(config.getUserTemplates());
+
+  if (templates.length === 0) {
+    console.log('No user templates defined yet.');
+    console.log('');
+    console.log('Create one with:');
+    console.log('  ccx template create <name> --base-url <url>');
+    return;
+  }
+
+  console.log('User Templates:\n');
+
+  for (const template of templates.sort((a, b) => a.name.localeCompare(b.name))) {
+    console.log(`  ${template.name}`);
+    console.log(`    ${template.displayName}`);
+    if (template.description) {
+      console.log(`    ${template.description}`);
+    }
+    if (template.kind && template.kind !== 'anthropic') {
+      console.log(`    Kind: ${template.kind}`);
+    }
+    if (template.baseUrl) {
+      console.log(`    Base URL: ${template.baseUrl}`);
+    }
+    if (template.defaultModel) {
+      console.log(`    Default model: ${template.defaultModel}`);
+    }
+    if (template.extraEnv) {
+      console.log(`    Extra env: ${Object.keys(template.extraEnv).join(', ')}`);
+    }
+    console.log('');
+  }
+}
+
+export function createTemplate(name: string, options: TemplateOptions): void {
+  if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+    console.error('Template name may only contain alphanumerics, dash, and underscore.');
+    process.exit(1);
+  }
+
+  if (isBuiltInTemplate(name)) {
+    console.error(`"${name}" is a built-in template. Choose another name.`);
+    process.exit(1);
+  }
+
+  if (config.getUserTemplates()[name]) {
+    console.error(`Template "${name}" already exists. Use 'ccx template edit ${name}' to modify it.`);
+    process.exit(1);
+  }
+
+  if (options.kind && !isProfileKind(options.kind)) {
+    console.error(`Unknown kind "${options.kind}". Expected one of: ${PROFILE_KINDS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const kind = (options.kind as ProfileKind) || 'anthropic';
+  if (kind === 'anthropic' && !options.baseUrl) {
+    console.error('--base-url is required.');
+    process.exit(1);
+  }
+
+  const template: ProviderTemplate = {
+    name,
+    displayName: options.displayName || name,
+    description: options.description || '',
+    kind: kind === 'anthropic' ? undefined : kind,
+    baseUrl: options.baseUrl || '',
+    defaultRegion: options.region,
+    defaultModel: options.model,
+    requiresApiKey: options.requiresKey ?? true,
+    clearAnthropicKey: options.clearKey ?? true,
+    setupInstructions: options.instructions,
+    params: options.define?.length ? parseParamDefinitions(options.define) : undefined,
+    extraEnv: updateExtraEnv(undefined, options.env || {}, [])
+  };
+
+  checkPlaceholders(template);
+  config.saveUserTemplate(template);
+  console.log(`Template "${name}" created successfully.`);
+  console.log('');
+  console.log('Create a profile from it with:');
+  console.log(`  ccx create <profile> --template ${name}`);
+}
+
+export function editTemplate(name: string, options: TemplateOptions): void {
+  const template = config.getUserTemplates()[name];
+
+  if (!template) {
+    if (isBuiltInTemplate(name)) {
+      console.error(`"${name}" is a built-in template and cannot be edited.`);
+    } else {
+      console.error(`Template "${name}" not found.`);
+    }
+    process.exit(1);
+  }
+
+  if (options.kind !== undefined) {
+    if (!isProfileKind(options.kind)) {
+      console.error(`Unknown kind "${options.kind}". Expected one of: ${PROFILE_KINDS.join(', ')}`);
+      process.exit(1);
+    }
+    template.kind = options.kind;
+  }
+  if (options.region !== undefined) template.defaultRegion = options.region || undefined;
+  if (options.displayName !== undefined) template.displayName = options.displayName;
+  if (options.description !== undefined) template.description = options.description;
+  if (options.baseUrl !== undefined) template.baseUrl = options.baseUrl;
+  if (options.model !== undefined) template.defaultModel = options.model || undefined;
+  if (options.requiresKey !== undefined) template.requiresApiKey = options.requiresKey;
+  if (options.clearKey !== undefined) template.clearAnthropicKey = options.clearKey;
+  if (options.instructions !== undefined) template.setupInstructions = options.instructions || undefined;
+  if (options.env || options.unsetEnv) {
+    template.extraEnv = updateExtraEnv(template.extraEnv, options.env || {}, options.unsetEnv || []);
+  }
+
+  if (options.define?.length) {
+    const params = template.params || [];
+    for (const param of parseParamDefinitions(options.define)) {
+      const index = params.findIndex(p => p.name === param.name);
+      if (index === -1) {
+        params.push(param);
+      } else {
+        params[index] = param;
+      }
+    }
+    template.params = params;
+  }
+
+  checkPlaceholders(template);
+  config.saveUserTemplate(template);
+  console.log(`Template "${name}" updated successfully.`);
+}
+
+export function deleteTemplate(name: string): void {
+  if (isBuiltInTemplate(name)) {
+    console.error(`"${name}" is a built-in template and cannot be deleted.`);
+    process.exit(1);
+  }
+
+  if (!config.deleteUserTemplate(name)) {
+    console.error(`Template "${name}" not found.`);
+    process.exit(1);
+  }
+
+  console.log(`Template "${name}" deleted.`);
+}
@@ -1,9 +1,16 @@
 // Interactive setup wizard
 
 import { select, input, confirm, password } from '@inquirer/prompts';
-import { listTemplates, getTemplate } from '../templates/providers.js';
+import {
+  listTemplates,
+  getTemplate,
+  checkParamValue,
+  validateTemplateParams,
+  applyTemplateParams
+} from '../templates/providers.js';
 import * as config from '../lib/config.js';
-import { Profile } from '../types.js';
+import { getProfileKind, MODEL_ROLES, ROLE_LABELS } from '../lib/kinds.js';
+import { Profile, ProviderTemplate, RoleModels } from '../types.js';
 import { fetchModels } from './models.js';
 
 interface OpenRouterModel {
@@ -19,13 +26,13 @@ function formatContext(contextLength: number): string {
   return `${contextLength}`;
 }
 
-async function selectModelInteractive(defaultModel?: string): Promise<string | undefined> {
+async function selectModelInteractive(defaultModel?: string, label: string = 'a model'): Promise<string | undefined> {
   // Prefetch models in background
   const modelsPromise = fetchModels();
   
   while (true) {
     const searchOrDefault = await select({
-      message: 'How would you like to select a model?',
+      message: `How would you like to select ${label}?`,
       choices: [
         { name: `Use default (${defaultModel || 'none'})`, value: 'default' },
         { name: 'Search models from OpenRouter', value: 'search' },
@@ -118,7 +125,81 @@ async function selectModelInteractive(defaultModel?: string): Promise<string | u
   }
 }
 
-export async function runSetupWizard(): Promise<void> {
+// Prompt for template params not already supplied, then substitute them
+async function resolveTemplateParams(
+  template: ProviderTemplate,
+  preset: Record<string, string>
+): Promise<ProviderTemplate> {
+  const values = { ...preset };
+
+  for (const param of template.params || []) {
+    if (values[param.name] !== undefined) continue;
+    values[param.name] = await input({
+      message: `${param.description || param.name}:`,
+      default: param.default,
+      validate: (value) => checkParamValue(param, value.trim()) ?? true
+    });
+    values[param.name] = values[param.name].trim();
+  }
+
+  const errors = validateTemplateParams(template, values);
+  if (errors.length > 0) {
+    errors.forEach(e => console.error(e));
+    process.exit(1);
+  }
+
+  return applyTemplateParams(template, values);
+}
+
+// Map Claude Code's opus/sonnet/haiku/background roles to models the provider actually serves
+async function promptRoleModels(
+  mainModel: string | undefined,
+  useOpenRouter: boolean,
+  suggest: boolean
+): Promise<RoleModels | undefined> {
+  const configure = await confirm({
+    message: 'Set models for Claude Code roles (opus/sonnet/haiku/background)?',
+    default: suggest
+  });
+  if (!configure) return undefined;
+
+  const roleModels: RoleModels = {};
+  for (const role of MODEL_ROLES) {
+    const label = `the ${ROLE_LABELS[role].toLowerCase()} model`;
+    const model = useOpenRouter
+      ? await selectModelInteractive(mainModel, label)
+      : await input({ message: `${ROLE_LABELS[role]} model:`, default: mainModel });
+    if (model) roleModels[role] = model.trim();
+  }
+  return Object.keys(roleModels).length > 0 ? roleModels : undefined;
+}
+
+// Region, AWS profile and project ID for Bedrock/Vertex templates
+async function promptKindFields(template: ProviderTemplate): Promise<Pick<Profile, 'region' | 'awsProfile' | 'projectId'>> {
+  const kind = getProfileKind(template);
+  if (kind === 'anthropic') return {};
+
+  const region = await input({
+    message: kind === 'bedrock' ? 'AWS region:' : 'Vertex region:',
+    default: template.defaultRegion,
+    validate: (value) => value.trim() ? true : 'Region is required'
+  });
+
+  if (kind === 'bedrock') {
+    const awsProfile = await input({
+      message: 'AWS profile (optional):'
+    });
+    return { region: region.trim(), awsProfile: awsProfile.trim() || undefined };
+  }
+
+  const projectId = await input({
+    message: 'GCP project ID:',
+    validate: (value) => value.trim() ? true : 'Project ID is required'
+  });
+  return { region: region.trim(), projectId: projectId.trim() };
+}
+
+export async function runSetupWizard(params: Record<string, string> = {}): Promise<void> {
   console.log('');
   console.log('╔══════════════════════════════════════════╗');
   console.log('║     Claude Env - Profile Setup Wizard    ║');
@@ -146,26 +227,32 @@ export async function runSetupWizard(): Promise<void> {
     }))
   });
   
-  const template = getTemplate(templateChoice)!;
+  const template = await resolveTemplateParams(getTemplate(templateChoice)!, params);
+  
+  const kind = getProfileKind(template);
+  const kindFields = await promptKindFields(template);
   
-  // Get base URL (use template default or ask for custom)
+  // Get base URL (use template default or ask for custom).
+  // Bedrock/Vertex reach the cloud provider directly, so only a template gateway URL applies.
   let baseUrl = template.baseUrl;
-  if (templateChoice === 'custom' || !baseUrl) {
-    baseUrl = await input({
-      message: 'API Base URL:',
-      validate: (value) => value.trim() ? true : 'URL is required'
-    });
-  } else {
-    const customUrl = await confirm({
-      message: `Use default URL (${template.baseUrl})?`,
-      default: true
-    });
-    
-    if (!customUrl) {
+  if (kind === 'anthropic') {
+    if (templateChoice === 'custom' || !baseUrl) {
       baseUrl = await input({
-        message: 'Custom API Base URL:',
-        default: template.baseUrl
+        message: 'API Base URL:',
+        validate: (value) => value.trim() ? true : 'URL is required'
+      });
+    } else {
+      const customUrl = await confirm({
+        message: `Use default URL (${template.baseUrl})?`,
+        default: true
       });
+    
+      if (!customUrl) {
+        baseUrl = await input({
+          message: 'Custom API Base URL:',
+          default: template.baseUrl
+        });
+      }
     }
   }
   
@@ -195,6 +282,13 @@ export async function runSetupWizard(): Promise<void> {
     });
   }
   
+  // Third-party endpoints rarely serve Claude Code's built-in role model IDs
+  const roleModels = await promptRoleModels(
+    model || undefined,
+    isOpenRouter,
+    kind === 'anthropic' && template.name !== 'official'
+  );
+  
   // Get API key if required
   let apiKey: string | undefined;
   if (template.requiresApiKey) {
@@ -208,9 +302,11 @@ export async function runSetupWizard(): Promise<void> {
       message: 'API Key:',
       mask: '*'
     });
-  } else {
+  } else if (kind !== 'vertex') {
     const wantApiKey = await confirm({
-      message: 'Add an API key? (optional)',
+      message: kind === 'bedrock'
+        ? 'Add a Bedrock API key? (optional, AWS credentials are used otherwise)'
+        : 'Add an API key? (optional)',
       default: false
     });
     
@@ -239,10 +335,14 @@ export async function runSetupWizard(): Promise<void> {
     name: profileName,
     description,
     provider: template.name,
+    kind: template.kind,
     baseUrl,
+    ...kindFields,
     model: model || undefined,
+    roleModels,
     apiKey: apiKey || undefined,
     clearAnthropicKey: clearKey,
+    extraEnv: template.extraEnv,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString()
   };
@@ -258,10 +358,10 @@ export async function runSetupWizard(): Promise<void> {
   console.log('');
 }
 
-export async function runQuickSetup(templateName: string): Promise<void> {
-  const template = getTemplate(templateName);
+export async function runQuickSetup(templateName: string, params: Record<string, string> = {}): Promise<void> {
+  const rawTemplate = getTemplate(templateName);
   
-  if (!template) {
+  if (!rawTemplate) {
     console.error(`Template "${templateName}" not found.`);
     console.log('Available templates:');
     listTemplates().forEach(t => console.log(`  - ${t.name}`));
@@ -269,14 +369,16 @@ export async function runQuickSetup(templateName: string): Promise<void> {
   }
   
   console.log('');
-  console.log(`Quick Setup: ${template.displayName}`);
+  console.log(`Quick Setup: ${rawTemplate.displayName}`);
   console.log('─'.repeat(40));
   
-  if (template.setupInstructions) {
-    console.log(`ℹ ${template.setupInstructions}`);
+  if (rawTemplate.setupInstructions) {
+    console.log(`ℹ ${rawTemplate.setupInstructions}`);
     console.log('');
   }
   
+  const template = await resolveTemplateParams(rawTemplate, params);
+
   const profileName = await input({
     message: 'Profile name:',
     default: templateName,
@@ -287,12 +389,25 @@ export async function runQuickSetup(templateName: string): Promise<void> {
     }
   });
 
+  const kindFields = await promptKindFields(template);
+
+  // Templates without a default endpoint (e.g. custom) need one from the user
+  let baseUrl = template.baseUrl;
+  if (!baseUrl && getProfileKind(template) === 'anthropic') {
+    baseUrl = await input({
+      message: 'API Base URL:',
+      validate: (value) => value.trim() ? true : 'URL is required'
+    });
+  }
+
   // Model selection for OpenRouter templates
   let model = template.defaultModel;
   const isOpenRouter = templateName.startsWith('openrouter') || template.baseUrl.includes('openrouter');
   
+  let roleModels: RoleModels | undefined;
   if (isOpenRouter) {
     model = await selectModelInteractive(template.defaultModel);
+    roleModels = await promptRoleModels(model, true, true);
   }
 
   let apiKey: string | undefined;
@@ -308,10 +423,14 @@ export async function runQuickSetup(templateName: string): Promise<void> {
     name: profileName,
     description: template.description,
     provider: template.name,
-    baseUrl: template.baseUrl,
+    kind: template.kind,
+    baseUrl,
+    ...kindFields,
     model: model,
+    roleModels,
     apiKey,
     clearAnthropicKey: template.clearAnthropicKey,
+    extraEnv: template.extraEnv,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString()
   };
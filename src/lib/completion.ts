@@ -0,0 +1,398 @@
+// Shell completion scripts generated from the commander program.
+// Command and option names are baked into the script; profile and user template names
+// are fetched with `ccx __complete`, which only reads the store file.
+
+import { Command } from 'commander';
+import { providerTemplates } from '../templates/providers.js';
+import { ENV_FORMATS } from './envfile.js';
+import { HOOK_SHELLS } from './hooks.js';
+import { INIT_SHELLS } from './init.js';
+import { PROFILE_KINDS } from './kinds.js';
+import { SETTING_KEYS } from './settings.js';
+import { SHELL_TYPES } from './shell.js';
+import { ShellType } from '../types.js';
+
+export const COMPLETION_SHELLS: ShellType[] = ['bash', 'zsh', 'fish', 'powershell'];
+
+// Space-separated words; "@source" words are expanded at completion time by `ccx __complete source`
+type ValueSpec = string;
+
+interface CompletionNode {
+  paths: string[];                         // "template delete", plus alias spellings like "template rm"
+  subcommands: string[];
+  options: string[];
+  valueOptions: Record<string, ValueSpec>; // Options that take a value; '' for free text
+  args: ValueSpec[];                       // By position
+}
+
+const PROFILE_ARG = ['@profiles'];
+
+// Values for options, by long name
+const OPTION_VALUES: Record<string, ValueSpec> = {
+  '--template': [...providerTemplates.map(t => t.name), '@user-templates'].join(' '),
+  '--shell': SHELL_TYPES.join(' '),
+  '--format': ENV_FORMATS.join(' '),
+  '--kind': PROFILE_KINDS.join(' '),
+  '--profile': '@profiles'
+};
+
+// Values for positional arguments, by canonical command path
+const ARG_VALUES: Record<string, ValueSpec[]> = {
+  use: PROFILE_ARG,
+  run: PROFILE_ARG,
+  show: PROFILE_ARG,
+  edit: PROFILE_ARG,
+  delete: PROFILE_ARG,
+  export: PROFILE_ARG,
+  ci: PROFILE_ARG,
+  exec: PROFILE_ARG,
+  env: ['@profiles', 'list set unset'],
+  hook: [HOOK_SHELLS.join(' ')],
+  init: [INIT_SHELLS.join(' ')],
+  completion: [COMPLETION_SHELLS.join(' ')],
+  'config get': [SETTING_KEYS.join(' ')],
+  'config set': [SETTING_KEYS.join(' ')],
+  'config unset': [SETTING_KEYS.join(' ')],
+  'template edit': ['@user-templates'],
+  'template delete': ['@user-templates']
+};
+
+function collectNodes(command: Command, canonical: string, paths: string[], nodes: CompletionNode[]): void {
+  const options = ['--help', '-h'];
+  const valueOptions: Record<string, ValueSpec> = {};
+
+  for (const option of command.options) {
+    if (option.hidden) continue;
+    const flags = [option.long, option.short].filter((flag): flag is string => Boolean(flag));
+    options.push(...flags);
+    if (option.required || option.optional) {
+      for (const flag of flags) {
+        valueOptions[flag] = OPTION_VALUES[option.long || ''] ?? '';
+      }
+    }
+  }
+
+  const subcommands = command.commands.flatMap(sub => [sub.name(), ...sub.aliases()]);
+  if (subcommands.length > 0) subcommands.push('help');
+
+  nodes.push({ paths, subcommands, options, valueOptions, args: ARG_VALUES[canonical] || [] });
+
+  for (const sub of command.commands) {
+    const names = [sub.name(), ...sub.aliases()];
+    const subPaths = paths.flatMap(prefix => names.map(name => (prefix ? `${prefix} ${name}` : name)));
+    collectNodes(sub, canonical ? `${canonical} ${sub.name()}` : sub.name(), subPaths, nodes);
+  }
+}
+
+function quoteSingle(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+function generateBashFunctions(nodes: CompletionNode[]): string[] {
+  const pattern = (paths: string[], suffix = '') => paths.map(p => `"${p}${suffix}"`).join('|');
+  const lines: string[] = [];
+
+  lines.push('_ccx_subcommands() {', '  case "$1" in');
+  for (const node of nodes.filter(n => n.subcommands.length > 0)) {
+    lines.push(`    ${pattern(node.paths)}) echo ${quoteSingle(node.subcommands.join(' '))} ;;`);
+  }
+  lines.push('  esac', '}');
+
+  lines.push('_ccx_options() {', '  case "$1" in');
+  for (const node of nodes) {
+    lines.push(`    ${pattern(node.paths)}) echo ${quoteSingle(node.options.join(' '))} ;;`);
+  }
+  lines.push('  esac', '}');
+
+  // Prints the value spec and succeeds when "$2" takes a value under path "$1"
+  lines.push('_ccx_option_values() {', '  case "$1|$2" in');
+  for (const node of nodes) {
+    for (const [flag, spec] of Object.entries(node.valueOptions)) {
+      lines.push(`    ${pattern(node.paths, `|${flag}`)}) echo ${quoteSingle(spec)} ;;`);
+    }
+  }
+  lines.push('    *) return 1 ;;', '  esac', '}');
+
+  lines.push('_ccx_args() {', '  case "$1|$2" in');
+  for (const node of nodes) {
+    node.args.forEach((spec, index) => {
+      lines.push(`    ${pattern(node.paths, `|${index}`)}) echo ${quoteSingle(spec)} ;;`);
+    });
+  }
+  lines.push('  esac', '}');
+
+  lines.push(
+    '_ccx_expand() {',
+    "  local word IFS=' '",
+    '  for word in $(echo "$1"); do',
+    '    case "$word" in',
+    '      @*) command ccx __complete "${word#@}" 2>/dev/null ;;',
+    '      *) echo "$word" ;;',
+    '    esac',
+    '  done',
+    '}'
+  );
+
+  return lines;
+}
+
+// Works out the command path and positional index from the words before the cursor,
+// skipping the values of options that take one
+function posixWalk(wordsVar: string, first: number, currentVar: string): string[] {
+  return [
+    '  local cmdpath="" npos=0 i word spec',
+    `  for ((i = ${first}; i < ${currentVar}; i++)); do`,
+    `    word="\${${wordsVar}[i]}"`,
+    '    case "$word" in',
+    '      -*=*) ;;',
+    '      -*) _ccx_option_values "$cmdpath" "$word" >/dev/null && ((i++)) ;;',
+    '      *)',
+    '        if ((npos == 0)) && [[ " $(_ccx_subcommands "$cmdpath") " == *" $word "* ]]; then',
+    '          cmdpath="${cmdpath:+$cmdpath }$word"',
+    '        else',
+    '          ((npos++))',
+    '        fi',
+    '        ;;',
+    '    esac',
+    '  done'
+  ];
+}
+
+// Picks the value spec for the word at the cursor
+const POSIX_PICK = [
+  '  if [[ "$prev" == -* ]] && spec="$(_ccx_option_values "$cmdpath" "$prev")"; then',
+  '    :',
+  '  elif [[ "$cur" == -* ]]; then',
+  '    spec="$(_ccx_options "$cmdpath")"',
+  '  elif ((npos == 0)) && [[ -n "$(_ccx_subcommands "$cmdpath")" ]]; then',
+  '    spec="$(_ccx_subcommands "$cmdpath")"',
+  '  else',
+  '    spec="$(_ccx_args "$cmdpath" "$npos")"',
+  '  fi'
+];
+
+function generateBashCompletion(nodes: CompletionNode[]): string {
+  return [
+    '# ccx completion (bash). Add to ~/.bashrc:',
+    '#   eval "$(ccx completion bash)"',
+    ...generateBashFunctions(nodes),
+    '_ccx() {',
+    '  local cur="${COMP_WORDS[COMP_CWORD]}" prev="${COMP_WORDS[COMP_CWORD-1]}"',
+    ...posixWalk('COMP_WORDS', 1, 'COMP_CWORD'),
+    ...POSIX_PICK,
+    '  local IFS=$\'\\n\'',
+    '  COMPREPLY=($(compgen -W "$(_ccx_expand "$spec")" -- "$cur"))',
+    '}',
+    'complete -F _ccx ccx ccenv'
+  ].join('\n');
+}
+
+function generateZshCompletion(nodes: CompletionNode[]): string {
+  // Same helpers as bash; zsh's words array is 1-based and includes "ccx" at 1
+  return [
+    '# ccx completion (zsh). Add to ~/.zshrc after compinit:',
+    '#   eval "$(ccx completion zsh)"',
+    ...generateBashFunctions(nodes),
+    '_ccx() {',
+    '  local cur="${words[CURRENT]}" prev="${words[CURRENT-1]}"',
+    ...posixWalk('words', 2, 'CURRENT'),
+    ...POSIX_PICK,
+    '  local -a candidates',
+    '  candidates=(${(f)"$(_ccx_expand "$spec")"})',
+    '  compadd -- $candidates',
+    '}',
+    'compdef _ccx ccx ccenv'
+  ].join('\n');
+}
+
+function fishList(values: string[]): string {
+  return values.map(quoteFish).join(' ');
+}
+
+function quoteFish(value: string): string {
+  return `'${value.replace(/[\\']/g, '\\$&')}'`;
+}
+
+// fish expands -a arguments at completion time, so "@source" becomes a command substitution
+function fishValues(spec: ValueSpec): string {
+  const words = spec.split(' ').filter(Boolean).map(word =>
+    word.startsWith('@') ? `(command ccx __complete ${word.slice(1)} 2>/dev/null)` : word
+  );
+  return quoteFish(words.join(' '));
+}
+
+function generateFishCompletion(nodes: CompletionNode[]): string {
+  const paths = nodes.flatMap(n => n.paths).filter(Boolean);
+  const valueOptions = nodes.flatMap(n =>
+    n.paths.flatMap(p => Object.keys(n.valueOptions).map(flag => `${p}|${flag}`))
+  );
+
+  const lines: string[] = [
+    '# ccx completion (fish). Add to ~/.config/fish/config.fish:',
+    '#   ccx completion fish | source',
+    `set -g __ccx_paths ${fishList(paths)}`,
+    `set -g __ccx_value_options ${fishList(valueOptions)}`,
+    '',
+    '# True when the words before the cursor are at command path $argv[1] (and positional $argv[2])',
+    'function __ccx_at',
+    '    set -l cmdpath ""',
+    '    set -l npos 0',
+    '    set -l skip 0',
+    '    for word in (commandline -opc)[2..-1]',
+    '        if test $skip = 1',
+    '            set skip 0',
+    '            continue',
+    '        end',
+    '        switch $word',
+    "            case '-*=*'",
+    "            case '-*'",
+    '                contains -- "$cmdpath|$word" $__ccx_value_options; and set skip 1',
+    "            case '*'",
+    '                set -l next (string trim -- "$cmdpath $word")',
+    '                if test $npos = 0; and contains -- $next $__ccx_paths',
+    '                    set cmdpath $next',
+    '                else',
+    '                    set npos (math $npos + 1)',
+    '                end',
+    '        end',
+    '    end',
+    '    test "$cmdpath" = "$argv[1]"; or return 1',
+    '    test (count $argv) -lt 2; or test $npos = $argv[2]',
+    'end',
+    '',
+    'complete -c ccx -f',
+    'complete -c ccenv -w ccx'
+  ];
+
+  for (const node of nodes) {
+    for (const p of node.paths) {
+      const at = `'__ccx_at ${quoteFishArg(p)}'`;
+      if (node.subcommands.length > 0) {
+        lines.push(`complete -c ccx -n '__ccx_at ${quoteFishArg(p)} 0' -a ${quoteFish(node.subcommands.join(' '))}`);
+      }
+      for (const option of optionGroups(node)) {
+        const flags = option.flags
+          .map(flag => (flag.startsWith('--') ? `-l ${flag.slice(2)}` : `-s ${flag.slice(1)}`))
+          .join(' ');
+        const value = option.spec === undefined ? '' : ` -x${option.spec ? ` -a ${fishValues(option.spec)}` : ''}`;
+        lines.push(`complete -c ccx -n ${at} ${flags}${value}`);
+      }
+      node.args.forEach((spec, index) => {
+        lines.push(`complete -c ccx -n '__ccx_at ${quoteFishArg(p)} ${index}' -a ${fishValues(spec)}`);
+      });
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// Path argument inside a single-quoted -n condition
+function quoteFishArg(value: string): string {
+  return `"${value}"`;
+}
+
+// Pair each long option with its short form
+function optionGroups(node: CompletionNode): { flags: string[]; spec?: ValueSpec }[] {
+  const groups: { flags: string[]; spec?: ValueSpec }[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < node.options.length; i++) {
+    const flag = node.options[i];
+    if (seen.has(flag)) continue;
+    const next = node.options[i + 1];
+    const flags = flag.startsWith('--') && next && !next.startsWith('--') ? [flag, next] : [flag];
+    flags.forEach(f => seen.add(f));
+    groups.push({ flags, spec: node.valueOptions[flag] });
+  }
+  return groups;
+}
+
+function psString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function psTable(entries: [string, string][]): string {
+  return ['@{', ...entries.map(([key, value]) => `    ${psString(key)} = ${psString(value)}`), '  }'].join('\n');
+}
+
+function generatePowerShellCompletion(nodes: CompletionNode[]): string {
+  const subcommands: [string, string][] = [];
+  const options: [string, string][] = [];
+  const values: [string, string][] = [];
+  const args: [string, string][] = [];
+
+  for (const node of nodes) {
+    for (const p of node.paths) {
+      if (node.subcommands.length > 0) subcommands.push([p, node.subcommands.join(' ')]);
+      options.push([p, node.options.join(' ')]);
+      for (const [flag, spec] of Object.entries(node.valueOptions)) values.push([`${p}|${flag}`, spec]);
+      node.args.forEach((spec, index) => args.push([`${p}|${index}`, spec]));
+    }
+  }
+
+  return [
+    '# ccx completion (PowerShell). Add to $PROFILE:',
+    '#   Invoke-Expression ((ccx completion powershell) -join "`n")',
+    'Register-ArgumentCompleter -Native -CommandName ccx, ccenv -ScriptBlock {',
+    '  param($wordToComplete, $commandAst, $cursorPosition)',
+    `  $subcommands = ${psTable(subcommands)}`,
+    `  $options = ${psTable(options)}`,
+    `  $values = ${psTable(values)}`,
+    `  $arguments = ${psTable(args)}`,
+    '',
+    '  $words = @($commandAst.CommandElements | Select-Object -Skip 1 | ForEach-Object { $_.ToString() })',
+    '  if ($wordToComplete) { $words = @($words | Select-Object -SkipLast 1) }',
+    "  $cmdpath = ''",
+    '  $npos = 0',
+    '  for ($i = 0; $i -lt $words.Count; $i++) {',
+    '    $word = $words[$i]',
+    "    if ($word -like '-*=*') { continue }",
+    "    if ($word -like '-*') {",
+    '      if ($values.ContainsKey("$cmdpath|$word")) { $i++ }',
+    '      continue',
+    '    }',
+    "    $next = (\"$cmdpath $word\").Trim()",
+    "    if ($npos -eq 0 -and $subcommands.ContainsKey($cmdpath) -and ($subcommands[$cmdpath] -split ' ') -contains $word) {",
+    '      $cmdpath = $next',
+    '    } else {',
+    '      $npos++',
+    '    }',
+    '  }',
+    '',
+    "  $prev = if ($words.Count -gt 0) { $words[-1] } else { '' }",
+    "  if ($prev -like '-*' -and $values.ContainsKey(\"$cmdpath|$prev\")) {",
+    '    $spec = $values["$cmdpath|$prev"]',
+    "  } elseif ($wordToComplete -like '-*') {",
+    '    $spec = $options[$cmdpath]',
+    '  } elseif ($npos -eq 0 -and $subcommands.ContainsKey($cmdpath)) {',
+    '    $spec = $subcommands[$cmdpath]',
+    '  } else {',
+    '    $spec = $arguments["$cmdpath|$npos"]',
+    '  }',
+    '',
+    '  $ccx = Get-Command ccx -CommandType Application, ExternalScript | Select-Object -First 1',
+    "  @(\"$spec\" -split ' ' | Where-Object { $_ } | ForEach-Object {",
+    "    if ($_.StartsWith('@')) { & $ccx __complete $_.Substring(1) } else { $_ }",
+    '  }) | Where-Object { $_ -like "$wordToComplete*" } | ForEach-Object {',
+    "    [System.Management.Automation.CompletionResult]::new($_, $_, 'ParameterValue', $_)",
+    '  }',
+    '}'
+  ].join('\n');
+}
+
+export function generateCompletionScript(program: Command, shell: ShellType): string {
+  const nodes: CompletionNode[] = [];
+  collectNodes(program, '', [''], nodes);
+
+  switch (shell) {
+    case 'bash':
+      return generateBashCompletion(nodes);
+    case 'zsh':
+      return generateZshCompletion(nodes);
+    case 'fish':
+      return generateFishCompletion(nodes);
+    case 'powershell':
+      return generatePowerShellCompletion(nodes);
+    default:
+      throw new Error(`Completion is not supported for ${shell}. Supported: ${COMPLETION_SHELLS.join(', ')}`);
+  }
+}
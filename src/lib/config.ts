@@ -1,48 +1,71 @@
 // Configuration manager using conf for persistent storage
 
+import * as fs from 'fs';
 import Conf from 'conf';
-import * as crypto from 'crypto';
-import * as os from 'os';
-import { Profile, ProfileConfig } from '../types.js';
+import { getConfigDir, getStorePath } from './store.js';
+import { decrypt, encrypt, openSecret, sealSecret, DecryptionError } from './encryption.js';
+import { CcxError } from './errors.js';
+import { getSchemaVersion, pendingMigrations, CONFIG_SCHEMA_VERSION } from './migrations.js';
+import { isSecretReference, resolveProfileSecrets } from './secrets.js';
+import { PassphraseSettings, Profile, ProfileConfig, ProviderTemplate, Settings, ShellType } from '../types.js';
 
-// Simple encryption for API keys (not military-grade, but better than plaintext)
-const ENCRYPTION_KEY = crypto.createHash('sha256')
-  .update(os.hostname() + os.userInfo().username + 'ccx-salt-v1')
-  .digest();
-
-function encrypt(text: string): string {
-  const iv = crypto.randomBytes(16);
-  const cipher = crypto.createCipheriv('aes-256-cbc', ENCRYPTION_KEY, iv);
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-  return iv.toString('hex') + ':' + encrypted;
-}
-
-function decrypt(text: string): string {
-  try {
-    const [ivHex, encrypted] = text.split(':');
-    const iv = Buffer.from(ivHex, 'hex');
-    const decipher = crypto.createDecipheriv('aes-256-cbc', ENCRYPTION_KEY, iv);
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-    return decrypted;
-  } catch {
-    return text; // Return as-is if decryption fails (might be unencrypted)
-  }
-}
+// Checked before conf writes its defaults, which would make a missing store look like an old one
+const isNewStore = !fs.existsSync(getStorePath());
 
 const config = new Conf<ProfileConfig>({
   projectName: 'claude-env',
+  cwd: getConfigDir(),
   defaults: {
     profiles: {},
+    templates: {},
     activeProfile: null,
     settings: {
-      encryptionEnabled: true,
-      defaultShell: process.platform === 'win32' ? 'powershell' : 'bash'
+      encryptionEnabled: true
     }
   }
 });
 
+if (isNewStore) {
+  config.set('schemaVersion', CONFIG_SCHEMA_VERSION);
+}
+
+export class StoreVersionError extends CcxError {}
+
+export interface MigrationStep {
+  version: number;
+  description: string;
+  changes: string[];
+  backup?: string;  // Copy of the store from before this step (not made in a dry run)
+}
+
+// Bring the store up to the current schema version, one migration at a time. Each step backs up
+// the store, then writes the migrated copy in one go. A dry run only reports what would change.
+export function migrateStore(dryRun = false): MigrationStep[] {
+  const version = getSchemaVersion(config.store);
+  if (version > CONFIG_SCHEMA_VERSION) {
+    throw new StoreVersionError(
+      `${config.path} was written by a newer ccx (config schema v${version}; this ccx supports up to ` +
+      `v${CONFIG_SCHEMA_VERSION}). Upgrade with: npm install -g ccenv-cli`
+    );
+  }
+
+  const store = structuredClone(config.store);
+  const steps: MigrationStep[] = [];
+  for (const migration of pendingMigrations(version)) {
+    const changes = migration.migrate(store);
+    store.schemaVersion = migration.version;
+
+    let backup: string | undefined;
+    if (!dryRun) {
+      backup = `${config.path}.v${getSchemaVersion(config.store)}-${Date.now()}.bak`;
+      fs.copyFileSync(config.path, backup);
+      config.store = structuredClone(store);
+    }
+    steps.push({ version: migration.version, description: migration.description, changes, backup });
+  }
+  return steps;
+}
+
 export function getConfig(): ProfileConfig {
   return config.store;
 }
@@ -51,23 +74,48 @@ export function getProfiles(): Record<string, Profile> {
   return config.get('profiles');
 }
 
-export function getProfile(name: string): Profile | undefined {
+// The profile as stored, with the API key decrypted but secret references left as written.
+// Use this to edit and save a profile, so resolved secrets are never written back.
+export function getStoredProfile(name: string): Profile | undefined {
   const profiles = getProfiles();
   const profile = profiles[name];
-  if (profile && profile.apiKey) {
-    // Decrypt API key when retrieving
-    return { ...profile, apiKey: decrypt(profile.apiKey) };
+  if (profile && profile.apiKey && !isSecretReference(profile.apiKey) && keysAreEncrypted()) {
+    // Decrypt API key when retrieving (throws KeysLockedError in passphrase mode without a session)
+    return { ...profile, apiKey: openApiKey(name, profile.apiKey, stored => openSecret(stored, getPassphraseSettings())) };
   }
   return profile;
 }
 
+// Name the profile when its key can't be decrypted
+function openApiKey(name: string, stored: string, open: (stored: string) => string): string {
+  try {
+    return open(stored);
+  } catch (e) {
+    if (!(e instanceof DecryptionError)) throw e;
+    throw new DecryptionError(`Cannot decrypt the API key of profile "${name}": ${e.message}. Run "ccx keys verify" for details.`);
+  }
+}
+
+// The profile ready to use: decrypted, with secret references resolved (throws SecretReferenceError)
+export function getProfile(name: string): Profile | undefined {
+  const profile = getStoredProfile(name);
+  return profile && resolveProfileSecrets(profile);
+}
+
+// The profile ready to use but without its stored API key, for callers that supply the key
+// themselves (a CI secret, where the host-bound key can't be decrypted)
+export function getProfileWithoutApiKey(name: string): Profile | undefined {
+  const profile = getProfiles()[name];
+  return profile && resolveProfileSecrets({ ...profile, apiKey: undefined });
+}
+
 export function saveProfile(profile: Profile): void {
   const profiles = getProfiles();
   const toSave = { ...profile };
   
-  // Encrypt API key before saving
-  if (toSave.apiKey && config.get('settings.encryptionEnabled')) {
-    toSave.apiKey = encrypt(toSave.apiKey);
+  // Encrypt API key before saving. References hold no secret.
+  if (toSave.apiKey && !isSecretReference(toSave.apiKey)) {
+    toSave.apiKey = sealApiKey(toSave.apiKey);
   }
   
   toSave.updatedAt = new Date().toISOString();
@@ -90,6 +138,43 @@ export function deleteProfile(name: string): boolean {
   return false;
 }
 
+export function getUserTemplates(): Record<string, ProviderTemplate> {
+  return config.get('templates') || {};
+}
+
+export function saveUserTemplate(template: ProviderTemplate): void {
+  const templates = getUserTemplates();
+  templates[template.name] = template;
+  config.set('templates', templates);
+}
+
+export function deleteUserTemplate(name: string): boolean {
+  const templates = getUserTemplates();
+  if (templates[name]) {
+    delete templates[name];
+    config.set('templates', templates);
+    return true;
+  }
+  return false;
+}
+
+// Project files the directory hook may apply, by real path, with the hash of the allowed content
+export function getTrustedProjects(): Record<string, string> {
+  return config.get('trustedProjects') || {};
+}
+
+export function trustProject(file: string, hash: string): void {
+  config.set('trustedProjects', { ...getTrustedProjects(), [file]: hash });
+}
+
+export function untrustProject(file: string): boolean {
+  const trusted = getTrustedProjects();
+  if (!(file in trusted)) return false;
+  delete trusted[file];
+  config.set('trustedProjects', trusted);
+  return true;
+}
+
 export function getActiveProfile(): string | null {
   return config.get('activeProfile');
 }
@@ -98,6 +183,82 @@ export function setActiveProfile(name: string | null): void {
   config.set('activeProfile', name);
 }
 
+export function getPassphraseSettings(): PassphraseSettings | undefined {
+  return config.get('settings.passphrase');
+}
+
+export function getSettings(): Settings {
+  return config.get('settings');
+}
+
+// The settings with changes applied; an undefined value removes the setting
+function mergeSettings(changes: Partial<Settings>): Settings {
+  const settings = { ...getSettings(), ...changes };
+  for (const key of Object.keys(changes) as (keyof Settings)[]) {
+    if (settings[key] === undefined) delete settings[key];
+  }
+  return settings;
+}
+
+export function updateSettings(changes: Partial<Settings>): void {
+  config.set('settings', mergeSettings(changes));
+}
+
+export function getDefaultShell(): ShellType | undefined {
+  return config.get('settings.defaultShell');
+}
+
+// Keys are stored in plain text only with encryption turned off and no master passphrase
+function keysAreEncrypted(): boolean {
+  return Boolean(getPassphraseSettings() || config.get('settings.encryptionEnabled'));
+}
+
+// Switch API key encryption: every stored key is opened with the current scheme and sealed with
+// the next one, and the settings that select the scheme change in the same write
+export function reencryptApiKeys(
+  open: (stored: string) => string,
+  seal: (plain: string) => string,
+  changes: Partial<Settings>
+): void {
+  const profiles = getProfiles();
+  for (const profile of Object.values(profiles)) {
+    if (profile.apiKey && !isSecretReference(profile.apiKey)) {
+      profile.apiKey = seal(openApiKey(profile.name, profile.apiKey, open));
+    }
+  }
+  
+  config.set({ profiles, settings: mergeSettings(changes) });
+}
+
+// How keys are stored when there's no master passphrase
+export function sealWithHostKey(plain: string): string {
+  return config.get('settings.encryptionEnabled') ? encrypt(plain) : plain;
+}
+
+// Encrypt a key the way the store currently does; a master passphrase always encrypts
+export function sealApiKey(plain: string): string {
+  const passphrase = getPassphraseSettings();
+  return passphrase ? sealSecret(plain, passphrase) : sealWithHostKey(plain);
+}
+
+// Replace the stored (already sealed) API keys of some profiles in one write
+export function replaceApiKeys(keys: Record<string, string>): void {
+  const profiles = getProfiles();
+  for (const [name, apiKey] of Object.entries(keys)) {
+    if (profiles[name]) profiles[name] = { ...profiles[name], apiKey, updatedAt: new Date().toISOString() };
+  }
+  config.set('profiles', profiles);
+}
+
+// Turn host-key encryption on or off, converting every stored key in the same write
+export function setEncryptionEnabled(enabled: boolean): void {
+  reencryptApiKeys(decrypt, plain => enabled ? encrypt(plain) : plain, { encryptionEnabled: enabled });
+}
+
+export function getClaudePath(): string | undefined {
+  return config.get('settings.claudePath');
+}
+
 export function profileExists(name: string): boolean {
   return name in getProfiles();
 }
@@ -108,4 +269,5 @@ export function getConfigPath(): string {
 
 export function resetConfig(): void {
   config.clear();
+  config.set('schemaVersion', CONFIG_SCHEMA_VERSION);
 }
@@ -0,0 +1,143 @@
+// API key encryption at rest. Kept apart from config.ts so the prompt segment can decrypt without loading conf.
+//
+// Two schemes share the apiKey field:
+// - host key: AES-256-CBC with a key derived from hostname and username ("iv:ciphertext")
+// - master passphrase: AES-256-GCM with a scrypt-derived key ("p1:iv:tag:ciphertext"), which
+//   needs an unlocked session (see session.ts)
+
+import * as crypto from 'crypto';
+import * as os from 'os';
+import { CcxError } from './errors.js';
+import { readSessionKey } from './session.js';
+import { PassphraseSettings } from '../types.js';
+
+// Host key ciphertext: a 16-byte IV and whole AES blocks, in hex. Anything else is a key stored
+// unencrypted (encryption turned off).
+const HOST_CIPHERTEXT = /^[0-9a-f]{32}:(?:[0-9a-f]{32})+$/;
+
+// Simple encryption for API keys (not military-grade, but better than plaintext)
+export function deriveHostKey(hostname: string = os.hostname(), username: string = os.userInfo().username): Buffer {
+  return crypto.createHash('sha256')
+    .update(hostname + username + 'ccx-salt-v1')
+    .digest();
+}
+
+const ENCRYPTION_KEY = deriveHostKey();
+
+const PASSPHRASE_PREFIX = 'p1:';
+
+// Sealed with the derived key to recognise the right passphrase
+const VERIFIER_TEXT = 'ccx-passphrase-check';
+
+// ~32 MiB and ~100ms per derivation
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+export class KeysLockedError extends CcxError {
+  constructor() {
+    super('API keys are protected by your master passphrase. Run "ccx unlock" first.');
+  }
+}
+
+// A stored key that can't be decrypted; the message says why and how to recover
+export class DecryptionError extends CcxError {}
+
+export function encrypt(text: string, key: Buffer = ENCRYPTION_KEY): string {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', key, iv);
+  let encrypted = cipher.update(text, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
+  return iv.toString('hex') + ':' + encrypted;
+}
+
+export function isHostCiphertext(text: string): boolean {
+  return HOST_CIPHERTEXT.test(text);
+}
+
+// Keys stored unencrypted are returned as-is. Throws DecryptionError when the key doesn't match,
+// typically because the hostname or username changed since the key was stored.
+export function decrypt(text: string, key: Buffer = ENCRYPTION_KEY): string {
+  if (!isHostCiphertext(text)) return text;
+
+  let decrypted: string;
+  try {
+    const [ivHex, encrypted] = text.split(':');
+    const iv = Buffer.from(ivHex, 'hex');
+    const decipher = crypto.createDecipheriv('aes-256-cbc', key, iv);
+    decrypted = decipher.update(encrypted, 'hex', 'utf8');
+    decrypted += decipher.final('utf8');
+  } catch {
+    decrypted = '';
+  }
+  // A wrong key occasionally yields valid padding; the result is then garbage rather than a key
+  if (!decrypted || /[\u0000-\u001f\ufffd]/.test(decrypted)) {
+    throw new DecryptionError('it was encrypted on another machine, or before the hostname or username changed');
+  }
+  return decrypted;
+}
+
+export function isPassphraseCiphertext(text: string): boolean {
+  return text.startsWith(PASSPHRASE_PREFIX);
+}
+
+export function deriveKey(passphrase: string, settings: PassphraseSettings): Buffer {
+  const { N, r, p } = settings;
+  return crypto.scryptSync(passphrase, Buffer.from(settings.salt, 'hex'), 32, { N, r, p, maxmem: 128 * N * r * 2 });
+}
+
+// New settings (fresh salt) for a passphrase, and the key they derive
+export function createPassphraseSettings(passphrase: string): { settings: PassphraseSettings; key: Buffer } {
+  const base = { kdf: 'scrypt' as const, salt: crypto.randomBytes(16).toString('hex'), ...SCRYPT_PARAMS };
+  const key = deriveKey(passphrase, { ...base, verifier: '' });
+  return { settings: { ...base, verifier: encryptWithKey(VERIFIER_TEXT, key) }, key };
+}
+
+export function verifyKey(key: Buffer, settings: PassphraseSettings): boolean {
+  try {
+    return decryptWithKey(settings.verifier, key) === VERIFIER_TEXT;
+  } catch {
+    return false;
+  }
+}
+
+export function encryptWithKey(text: string, key: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return [PASSPHRASE_PREFIX + iv.toString('hex'), cipher.getAuthTag().toString('hex'), encrypted.toString('hex')].join(':');
+}
+
+// Throws when the key is wrong or the ciphertext was altered
+export function decryptWithKey(text: string, key: Buffer): string {
+  const [ivHex, tagHex, encrypted] = text.slice(PASSPHRASE_PREFIX.length).split(':');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(ivHex, 'hex'));
+  decipher.setAuthTag(Buffer.from(tagHex, 'hex'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'hex')), decipher.final()]).toString('utf8');
+}
+
+// The unlocked session's key, only if it really is the passphrase's key
+function sessionKey(passphrase: PassphraseSettings | undefined): Buffer | undefined {
+  const key = passphrase && readSessionKey(passphrase);
+  return key && verifyKey(key, passphrase) ? key : undefined;
+}
+
+// Decrypt a stored API key under whichever scheme sealed it
+export function openSecret(stored: string, passphrase?: PassphraseSettings): string {
+  if (!isPassphraseCiphertext(stored)) return decrypt(stored);
+
+  const key = sessionKey(passphrase);
+  if (!key) throw new KeysLockedError();
+  try {
+    return decryptWithKey(stored, key);
+  } catch {
+    throw new DecryptionError('it is corrupt or was encrypted with another master passphrase');
+  }
+}
+
+// Encrypt an API key for storage: with the session key in passphrase mode, else the host key
+export function sealSecret(text: string, passphrase?: PassphraseSettings): string {
+  if (!passphrase) return encrypt(text);
+
+  const key = sessionKey(passphrase);
+  if (!key) throw new KeysLockedError();
+  return encryptWithKey(text, key);
+}
@@ -0,0 +1,93 @@
+// Machine-readable exports of a profile's environment (dotenv, Docker env-file, JSON, systemd, Kubernetes)
+
+import { generateEnvVars } from './shell.js';
+import { isValidEnvKey, SECRET_VARS } from './kinds.js';
+import { isSecretReference } from './secrets.js';
+import { EnvFormat, Profile } from '../types.js';
+
+export const ENV_FORMATS: EnvFormat[] = ['dotenv', 'docker', 'json', 'systemd', 'k8s-secret'];
+
+export interface ExportEnv {
+  env: Record<string, string>;
+  omitted: string[];  // Secret variables and unresolved secret references left out
+}
+
+export function isEnvFormat(value: string): value is EnvFormat {
+  return (ENV_FORMATS as string[]).includes(value);
+}
+
+// Only variables with a value: a file can't express "unset", and a fresh container has nothing to clear
+export function getExportEnv(profile: Profile, includeSecrets: boolean): ExportEnv {
+  const env: Record<string, string> = {};
+  const omitted: string[] = [];
+
+  for (const [key, value] of Object.entries({ ...generateEnvVars(profile), CCX_ACTIVE_PROFILE: profile.name })) {
+    if (!value) continue;
+    if (!includeSecrets && (SECRET_VARS.includes(key) || isSecretReference(value))) {
+      omitted.push(key);
+      continue;
+    }
+    env[key] = value;
+  }
+
+  return { env, omitted };
+}
+
+function assertSingleLine(format: EnvFormat, key: string, value: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`${key}: ${format} files cannot hold values with line breaks`);
+  }
+}
+
+// Double-quoted with backslash escapes, as read by dotenv and systemd
+function doubleQuote(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&').replace(/\n/g, '\\n').replace(/\r/g, '\\r')}"`;
+}
+
+// DNS-1123 name for the Secret object
+function k8sName(profileName: string): string {
+  const slug = profileName.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `ccx-${slug || 'profile'}`.slice(0, 63).replace(/-+$/, '');
+}
+
+export function formatEnvFile(env: Record<string, string>, format: EnvFormat, profileName: string): string {
+  for (const key of Object.keys(env)) {
+    if (!isValidEnvKey(key)) {
+      throw new Error(`Invalid environment variable name "${key}"`);
+    }
+  }
+  const entries = Object.entries(env);
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(env, null, 2);
+    case 'docker':
+      // docker --env-file takes everything after = literally, quotes included
+      return entries.map(([key, value]) => {
+        assertSingleLine(format, key, value);
+        return `${key}=${value}`;
+      }).join('\n');
+    case 'systemd':
+      return entries.map(([key, value]) => {
+        assertSingleLine(format, key, value);
+        return `${key}=${doubleQuote(value)}`;
+      }).join('\n');
+    case 'k8s-secret':
+      // JSON strings are valid YAML double-quoted scalars
+      return [
+        'apiVersion: v1',
+        'kind: Secret',
+        'metadata:',
+        `  name: ${k8sName(profileName)}`,
+        'type: Opaque',
+        entries.length > 0 ? 'stringData:' : 'stringData: {}',
+        ...entries.map(([key, value]) => `  ${key}: ${JSON.stringify(value)}`)
+      ].join('\n');
+    default:
+      // Single quotes are literal in dotenv, docker compose and python-dotenv (no $ interpolation)
+      return entries.map(([key, value]) => {
+        const literal = !/['\r\n]/.test(value);
+        return `${key}=${literal ? `'${value}'` : doubleQuote(value)}`;
+      }).join('\n');
+  }
+}
@@ -0,0 +1,9 @@
+// Errors whose message is meant for the user as-is. Commands let them propagate and the CLI prints
+// the message instead of a stack trace.
+
+export class CcxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
@@ -0,0 +1,131 @@
+// Running child processes under a profile: the child's environment, and supervision that makes
+// ccx transparent to callers (exit codes, signals and stdio pass straight through)
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateEnvVars } from './shell.js';
+import { recoverApiKey, PREVIOUS_ENV_VAR } from './stack.js';
+import { Profile } from '../types.js';
+
+// Signals that would otherwise kill ccx and orphan the child
+const FORWARDED_SIGNALS: NodeJS.Signals[] = process.platform === 'win32'
+  ? ['SIGINT', 'SIGBREAK', 'SIGHUP']
+  : ['SIGINT', 'SIGTERM', 'SIGHUP', 'SIGQUIT'];
+
+// The current environment with the profile applied ('' removes a variable)
+export function buildChildEnv(profile: Profile, base: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+  const childEnv: NodeJS.ProcessEnv = { ...base };
+
+  const env = { ...generateEnvVars(profile), ...recoverApiKey(profile, base) };
+  for (const [key, value] of Object.entries(env)) {
+    if (value === '') {
+      delete childEnv[key];
+    } else if (value !== undefined) {
+      childEnv[key] = value;
+    }
+  }
+  childEnv.CCX_ACTIVE_PROFILE = profile.name;
+  // The child isn't the shell that recorded it, so `ccx reset` there must not restore it
+  delete childEnv[PREVIOUS_ENV_VAR];
+
+  return childEnv;
+}
+
+// Characters cmd.exe interprets even inside a quoted argument
+const CMD_META_CHARS = /([()\][%!^"`<>&|;, *?])/g;
+
+function isExecutableFile(file: string): boolean {
+  try {
+    if (!fs.statSync(file).isFile()) return false;
+    if (process.platform !== 'win32') fs.accessSync(file, fs.constants.X_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Find a program the way the shell would: paths are used as-is, bare names are looked up on PATH
+// (trying each PATHEXT extension on Windows). Returns undefined when there's nothing to run.
+export function resolveExecutable(command: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const windows = process.platform === 'win32';
+  const extensions = windows && !path.extname(command)
+    ? (env.PATHEXT || '.COM;.EXE;.BAT;.CMD').split(';').filter(Boolean)
+    : [''];
+
+  const candidates = command.includes('/') || (windows && command.includes('\\'))
+    ? [path.resolve(command)]
+    : (env.PATH || env.Path || '').split(path.delimiter).filter(Boolean).map(dir => path.join(dir, command));
+
+  for (const candidate of candidates) {
+    for (const extension of extensions) {
+      if (isExecutableFile(candidate + extension)) return candidate + extension;
+    }
+  }
+  return undefined;
+}
+
+// Quote an argument for `cmd.exe /s /c`, as cross-spawn does: backslash-escape for the program's own
+// parser, then caret-escape twice, since npm's .cmd shims pass arguments through cmd.exe a second time
+function quoteCmdArg(arg: string): string {
+  const quoted = `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, '$1$1')}"`;
+  return quoted.replace(CMD_META_CHARS, '^$1').replace(CMD_META_CHARS, '^$1');
+}
+
+// Batch files (npm installs claude as claude.cmd) can only be run through cmd.exe
+function spawnArgs(file: string, args: string[]): [string, string[], boolean] {
+  if (process.platform === 'win32' && /\.(cmd|bat)$/i.test(file)) {
+    const line = [file.replace(CMD_META_CHARS, '^$1'), ...args.map(quoteCmdArg)].join(' ');
+    return [process.env.ComSpec || 'cmd.exe', ['/d', '/s', '/c', `"${line}"`], true];
+  }
+  return [file, args, false];
+}
+
+// Run a program without a shell and exit the way it did: same exit code, or the same signal.
+// Window size changes need no forwarding: the terminal sends SIGWINCH to the child directly.
+// onSuccess runs before exiting when the program exits with 0.
+export function runSupervised(
+  command: string,
+  args: string[],
+  env: NodeJS.ProcessEnv,
+  onSuccess?: () => void
+): Promise<never> {
+  return new Promise(() => {
+    const file = resolveExecutable(command, env);
+    if (!file) {
+      console.error(`Command not found: ${command}`);
+      process.exit(127);
+    }
+
+    const [spawnFile, spawnArgv, windowsVerbatimArguments] = spawnArgs(file, args);
+    const child = spawn(spawnFile, spawnArgv, { env, stdio: 'inherit', windowsVerbatimArguments });
+
+    const forward = (signal: NodeJS.Signals) => {
+      child.kill(signal);
+    };
+    for (const signal of FORWARDED_SIGNALS) {
+      process.on(signal, forward);
+    }
+
+    child.on('error', (error) => {
+      console.error(`Cannot run ${file}: ${error.message}`);
+      process.exit(126);
+    });
+
+    child.on('close', (code, signal) => {
+      for (const forwarded of FORWARDED_SIGNALS) {
+        process.off(forwarded, forward);
+      }
+      if (signal) {
+        // Re-raise so our parent sees the same termination signal. Delivery is asynchronous, so
+        // keep the event loop alive meanwhile; the shell convention code covers platforms where it isn't fatal
+        process.kill(process.pid, signal);
+        setTimeout(() => process.exit(128 + (os.constants.signals[signal] ?? 0)), 1000);
+        return;
+      }
+      if (code === 0 && onSuccess) onSuccess();
+      process.exit(code ?? 1);
+    });
+  });
+}
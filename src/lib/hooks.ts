@@ -0,0 +1,161 @@
+// Shell hooks that apply the project profile when changing directory (like direnv / nvm auto-use).
+// The hooks look for the project file in pure shell and only call ccx when the nearest
+// project file changes, so an unchanged prompt costs a string comparison. `ccx use --hook` only
+// applies files allowed with `ccx allow` and marks the frame it pushes; leaving or switching
+// projects runs `ccx pop --hook`, which restores the environment from before that frame (undoing
+// any `ccx use` made inside the project too), so a profile applied by hand before entering comes
+// back. The project file is only recorded once its `ccx use` succeeded.
+
+import { PROJECT_FILES } from './project.js';
+import { ShellType } from '../types.js';
+
+export const HOOK_SHELLS: ShellType[] = ['bash', 'zsh', 'fish', 'powershell'];
+
+// Shared by bash and zsh: both support [[ ]] and ${var%pattern}
+function posixHookFunction(shell: ShellType): string {
+  const checks = PROJECT_FILES.map(
+    file => `      if [[ -f "$dir/${file}" ]]; then file="$dir/${file}"; break; fi`
+  );
+
+  return [
+    '__ccx_hook() {',
+    '  local previous_exit=$?',
+    '  if [[ "$PWD" != "${__CCX_HOOK_PWD-}" ]]; then',
+    '    __CCX_HOOK_PWD="$PWD"',
+    '    local dir="$PWD" file=""',
+    '    while :; do',
+    ...checks,
+    '      [[ -z "$dir" ]] && break',
+    '      dir="${dir%/*}"',
+    '    done',
+    '    if [[ "$file" != "${__CCX_HOOK_FILE-}" ]]; then',
+    '      if [[ -n "${__CCX_HOOK_FILE-}" ]]; then',
+    `        eval "$(command ccx pop --hook --shell ${shell})"`,
+    '        __CCX_HOOK_FILE=""',
+    '      fi',
+    '      local script',
+    `      if [[ -n "$file" ]] && script="$(command ccx use --hook --shell ${shell})"; then`,
+    '        eval "$script"',
+    '        __CCX_HOOK_FILE="$file"',
+    '      fi',
+    '    fi',
+    '  fi',
+    '  return $previous_exit',
+    '}'
+  ].join('\n');
+}
+
+function generateBashHook(): string {
+  return [
+    '# ccx project profile hook (bash). Add to ~/.bashrc:',
+    '#   eval "$(ccx hook bash)"',
+    posixHookFunction('bash'),
+    'if [[ ";${PROMPT_COMMAND[*]:-};" != *";__ccx_hook;"* ]]; then',
+    '  PROMPT_COMMAND="__ccx_hook${PROMPT_COMMAND:+;$PROMPT_COMMAND}"',
+    'fi'
+  ].join('\n');
+}
+
+function generateZshHook(): string {
+  return [
+    '# ccx project profile hook (zsh). Add to ~/.zshrc:',
+    '#   eval "$(ccx hook zsh)"',
+    posixHookFunction('zsh'),
+    'autoload -Uz add-zsh-hook',
+    'add-zsh-hook precmd __ccx_hook'
+  ].join('\n');
+}
+
+function generateFishHook(): string {
+  const checks = PROJECT_FILES.map(
+    file => `        if test -f "$dir/${file}"; set file "$dir/${file}"; break; end`
+  );
+
+  return [
+    '# ccx project profile hook (fish). Add to ~/.config/fish/config.fish:',
+    '#   ccx hook fish | source',
+    "function __ccx_hook --on-variable PWD --description 'Apply the ccx project profile'",
+    '    set -l dir $PWD',
+    "    set -l file ''",
+    '    while true',
+    ...checks,
+    '        if test -z "$dir"; break; end',
+    "        set dir (string replace -r '/[^/]*$' '' -- $dir)",
+    '    end',
+    '    if test "$file" != "$__CCX_HOOK_FILE"',
+    '        if test -n "$__CCX_HOOK_FILE"',
+    '            command ccx pop --hook --shell fish | source',
+    "            set -g __CCX_HOOK_FILE ''",
+    '        end',
+    '        if test -n "$file"',
+    '            set -l script (command ccx use --hook --shell fish)',
+    '            if test $status -eq 0',
+    '                string join \\n -- $script | source',
+    '                set -g __CCX_HOOK_FILE $file',
+    '            end',
+    '        end',
+    '    end',
+    'end',
+    '__ccx_hook'
+  ].join('\n');
+}
+
+function generatePowerShellHook(): string {
+  const names = PROJECT_FILES.map(file => `'${file}'`).join(', ');
+
+  return [
+    '# ccx project profile hook (PowerShell). Add to $PROFILE:',
+    '#   Invoke-Expression ((ccx hook powershell) -join "`n")',
+    '$global:__CcxHookPwd = $null',
+    '$global:__CcxHookFile = $null',
+    '$global:__CcxBinary = Get-Command ccx -CommandType Application, ExternalScript | Select-Object -First 1',
+    'function global:__CcxHook {',
+    '  $current = (Get-Location).ProviderPath',
+    '  if ($current -eq $global:__CcxHookPwd) { return }',
+    '  $global:__CcxHookPwd = $current',
+    '  $file = $null',
+    '  $dir = $current',
+    '  while ($dir) {',
+    `    foreach ($name in @(${names})) {`,
+    '      $candidate = Join-Path $dir $name',
+    '      if (Test-Path -LiteralPath $candidate -PathType Leaf) { $file = $candidate; break }',
+    '    }',
+    '    if ($file) { break }',
+    '    $dir = Split-Path -Parent $dir',
+    '  }',
+    '  if ($file -ne $global:__CcxHookFile) {',
+    '    if ($global:__CcxHookFile) {',
+    '      $restore = & $global:__CcxBinary pop --hook --shell powershell',
+    '      if ($restore) { Invoke-Expression ($restore -join "`n") }',
+    '      $global:__CcxHookFile = $null',
+    '    }',
+    '    if ($file) {',
+    '      $script = & $global:__CcxBinary use --hook --shell powershell',
+    '      if ($LASTEXITCODE -eq 0) {',
+    '        Invoke-Expression ($script -join "`n")',
+    '        $global:__CcxHookFile = $file',
+    '      }',
+    '    }',
+    '  }',
+    '}',
+    'if (-not $global:__CcxOriginalPrompt) {',
+    '  $global:__CcxOriginalPrompt = $function:prompt',
+    '  function global:prompt { __CcxHook; & $global:__CcxOriginalPrompt }',
+    '}'
+  ].join('\n');
+}
+
+export function generateHookScript(shell: ShellType): string {
+  switch (shell) {
+    case 'bash':
+      return generateBashHook();
+    case 'zsh':
+      return generateZshHook();
+    case 'fish':
+      return generateFishHook();
+    case 'powershell':
+      return generatePowerShellHook();
+    default:
+      throw new Error(`Directory hooks are not supported for ${shell}. Supported: ${HOOK_SHELLS.join(', ')}`);
+  }
+}
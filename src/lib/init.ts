@@ -0,0 +1,100 @@
+// Shell init wrappers (like `nvm use`): a `ccx` shell function that applies `use`, `reset` and `pop`
+// to the current shell by evaluating the scripts those commands print. Every other subcommand
+// and help go straight to the binary, as do calls from a command substitution in bash, zsh and
+// fish, so existing `eval "$(ccx use work)"` lines keep working.
+
+import { ShellType } from '../types.js';
+
+export const INIT_SHELLS: ShellType[] = ['bash', 'zsh', 'fish', 'powershell'];
+
+// Subcommands whose output is a script for the current shell
+const APPLIED_COMMANDS = ['use', 'reset', 'pop'];
+
+// Shared by bash and zsh; variables are prefixed so a profile's extraEnv can't collide with them
+function posixInitFunction(shell: ShellType): string {
+  return [
+    'ccx() {',
+    '  if [[ "${BASH_SUBSHELL:-${ZSH_SUBSHELL:-0}}" == 0 ]]; then',
+    '    case "${1-}" in',
+    `      ${APPLIED_COMMANDS.join('|')})`,
+    '        local __ccx_arg __ccx_script',
+    '        for __ccx_arg in "$@"; do',
+    '          case "$__ccx_arg" in -h|--help) command ccx "$@"; return ;; esac',
+    '        done',
+    `        __ccx_script="$(command ccx "$1" --shell ${shell} "\${@:2}")" || return`,
+    '        eval "$__ccx_script"',
+    '        return',
+    '        ;;',
+    '    esac',
+    '  fi',
+    '  command ccx "$@"',
+    '}'
+  ].join('\n');
+}
+
+function generateBashInit(): string {
+  return [
+    '# ccx shell integration (bash). Add to ~/.bashrc:',
+    '#   eval "$(ccx init bash)"',
+    posixInitFunction('bash')
+  ].join('\n');
+}
+
+function generateZshInit(): string {
+  return [
+    '# ccx shell integration (zsh). Add to ~/.zshrc:',
+    '#   eval "$(ccx init zsh)"',
+    posixInitFunction('zsh')
+  ].join('\n');
+}
+
+function generateFishInit(): string {
+  return [
+    '# ccx shell integration (fish). Add to ~/.config/fish/config.fish:',
+    '#   ccx init fish | source',
+    "function ccx --wraps ccx --description 'ccx, applying use/reset/pop to this shell'",
+    `    if not status is-command-substitution; and contains -- "$argv[1]" ${APPLIED_COMMANDS.join(' ')}`,
+    '        and not contains -- --help $argv; and not contains -- -h $argv',
+    '        set -l __ccx_script (command ccx $argv[1] --shell fish $argv[2..-1]); or return',
+    '        string join \\n -- $__ccx_script | source',
+    '        return',
+    '    end',
+    '    command ccx $argv',
+    'end'
+  ].join('\n');
+}
+
+function generatePowerShellInit(): string {
+  const commands = APPLIED_COMMANDS.map(command => `'${command}'`).join(', ');
+
+  return [
+    '# ccx shell integration (PowerShell). Add to $PROFILE:',
+    '#   Invoke-Expression ((ccx init powershell) -join "`n")',
+    '$global:__CcxBinary = Get-Command ccx -CommandType Application, ExternalScript | Select-Object -First 1',
+    'function global:ccx {',
+    `  if ($args.Count -gt 0 -and @(${commands}) -contains $args[0] -and -not ($args -contains '--help' -or $args -contains '-h')) {`,
+    '    $rest = @($args | Select-Object -Skip 1)',
+    '    $script = & $global:__CcxBinary $args[0] --shell powershell @rest',
+    '    if ($LASTEXITCODE -ne 0) { return }',
+    '    if ($script) { Invoke-Expression ($script -join "`n") }',
+    '    return',
+    '  }',
+    '  & $global:__CcxBinary @args',
+    '}'
+  ].join('\n');
+}
+
+export function generateInitScript(shell: ShellType): string {
+  switch (shell) {
+    case 'bash':
+      return generateBashInit();
+    case 'zsh':
+      return generateZshInit();
+    case 'fish':
+      return generateFishInit();
+    case 'powershell':
+      return generatePowerShellInit();
+    default:
+      throw new Error(`Shell integration is not supported for ${shell}. Supported: ${INIT_SHELLS.join(', ')}`);
+  }
+}
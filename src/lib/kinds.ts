@@ -0,0 +1,172 @@
+// Profile kinds and the env vars / fields each one needs
+
+import { ModelRole, Profile, ProfileKind } from '../types.js';
+import { PREVIOUS_ENV_VAR } from './stack.js';
+
+export const PROFILE_KINDS: ProfileKind[] = ['anthropic', 'bedrock', 'vertex'];
+
+// Env var Claude Code reads for each model role
+export const MODEL_ROLE_VARS: Record<ModelRole, string> = {
+  smallFast: 'ANTHROPIC_SMALL_FAST_MODEL',
+  opus: 'ANTHROPIC_DEFAULT_OPUS_MODEL',
+  sonnet: 'ANTHROPIC_DEFAULT_SONNET_MODEL',
+  haiku: 'ANTHROPIC_DEFAULT_HAIKU_MODEL'
+};
+
+export const MODEL_ROLES = Object.keys(MODEL_ROLE_VARS) as ModelRole[];
+
+export const ROLE_LABELS: Record<ModelRole, string> = {
+  smallFast: 'Small/fast',
+  opus: 'Opus',
+  sonnet: 'Sonnet',
+  haiku: 'Haiku'
+};
+
+// Env vars set by each kind, cleared again on reset
+const KIND_VARS: Record<ProfileKind, string[]> = {
+  anthropic: [
+    'ANTHROPIC_BASE_URL',
+    'ANTHROPIC_AUTH_TOKEN',
+    'ANTHROPIC_MODEL'
+  ],
+  bedrock: [
+    'CLAUDE_CODE_USE_BEDROCK',
+    'AWS_REGION',
+    'AWS_PROFILE',
+    'AWS_BEARER_TOKEN_BEDROCK',
+    'ANTHROPIC_BEDROCK_BASE_URL',
+    'ANTHROPIC_MODEL'
+  ],
+  vertex: [
+    'CLAUDE_CODE_USE_VERTEX',
+    'CLOUD_ML_REGION',
+    'ANTHROPIC_VERTEX_PROJECT_ID',
+    'ANTHROPIC_VERTEX_BASE_URL',
+    'ANTHROPIC_MODEL'
+  ]
+};
+
+// Env vars that carry the profile's API key
+export const SECRET_VARS = ['ANTHROPIC_AUTH_TOKEN', 'AWS_BEARER_TOKEN_BEDROCK'];
+
+export function isProfileKind(value: string): value is ProfileKind {
+  return (PROFILE_KINDS as string[]).includes(value);
+}
+
+export function getProfileKind(profile: Pick<Profile, 'kind'>): ProfileKind {
+  return profile.kind || 'anthropic';
+}
+
+// Profile fields that mean something different (or nothing) under another kind: an endpoint,
+// a region or a model ID from one backend is wrong for the next
+const KIND_SPECIFIC_FIELDS = ['baseUrl', 'region', 'awsProfile', 'projectId', 'model', 'roleModels'] as const;
+
+// Switch a profile to another kind, clearing the fields that belonged to the old one so they
+// can't leak into the new kind's env vars. Returns the names of the fields it cleared.
+export function changeProfileKind(profile: Profile, kind: ProfileKind): string[] {
+  if (kind === getProfileKind(profile)) return [];
+
+  const cleared = KIND_SPECIFIC_FIELDS.filter(field => profile[field] !== undefined && profile[field] !== '');
+  for (const field of KIND_SPECIFIC_FIELDS) {
+    delete profile[field];
+  }
+  profile.baseUrl = '';
+  profile.kind = kind === 'anthropic' ? undefined : kind;
+  profile.provider = kind === 'anthropic' ? 'custom' : kind;
+  return cleared;
+}
+
+export function getKindVars(kind: ProfileKind): string[] {
+  return [...KIND_VARS[kind], ...Object.values(MODEL_ROLE_VARS)];
+}
+
+// Every var ccx sets or clears itself; extraEnv may not override these
+export function getManagedVars(): string[] {
+  const vars = PROFILE_KINDS.flatMap(getKindVars);
+  return Array.from(new Set([...vars, 'ANTHROPIC_API_KEY', 'CCX_ACTIVE_PROFILE', PREVIOUS_ENV_VAR]));
+}
+
+// Names every supported shell accepts unquoted
+export function isValidEnvKey(key: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key);
+}
+
+// Returns an error message for an unusable extraEnv key, or null if it is valid
+export function checkEnvKey(key: string): string | null {
+  if (!isValidEnvKey(key)) {
+    return `Invalid environment variable name "${key}"`;
+  }
+  if (getManagedVars().includes(key)) {
+    return `${key} is managed by ccx. Use the profile's own options instead.`;
+  }
+  return null;
+}
+
+// Vars that select the backend. A profile clears the other kinds' selectors so a
+// leftover CLAUDE_CODE_USE_BEDROCK doesn't override an OpenRouter profile.
+const SELECTOR_VARS: Record<ProfileKind, string[]> = {
+  anthropic: ['ANTHROPIC_BASE_URL', 'ANTHROPIC_AUTH_TOKEN'],
+  bedrock: ['CLAUDE_CODE_USE_BEDROCK'],
+  vertex: ['CLAUDE_CODE_USE_VERTEX']
+};
+
+export function getForeignSelectorVars(kind: ProfileKind): string[] {
+  return PROFILE_KINDS.filter(k => k !== kind).flatMap(k => SELECTOR_VARS[k]);
+}
+
+// Returns the missing/invalid fields for the profile's kind, empty when valid
+export function validateProfileFields(profile: Partial<Profile>): string[] {
+  const errors: string[] = [];
+  const kind = profile.kind || 'anthropic';
+
+  if (!isProfileKind(kind)) {
+    errors.push(`Unknown kind "${kind}". Expected one of: ${PROFILE_KINDS.join(', ')}`);
+    return errors;
+  }
+
+  switch (kind) {
+    case 'anthropic':
+      if (!profile.baseUrl) errors.push('Base URL is required');
+      break;
+    case 'bedrock':
+      if (!profile.region) errors.push('AWS region is required for Bedrock profiles');
+      break;
+    case 'vertex':
+      if (!profile.region) errors.push('Region is required for Vertex profiles');
+      if (!profile.projectId) errors.push('GCP project ID is required for Vertex profiles');
+      break;
+  }
+
+  const argsError = checkClaudeArgs(profile.claudeArgs);
+  if (argsError) errors.push(argsError);
+  const rolesError = checkRoleModels(profile.roleModels);
+  if (rolesError) errors.push(rolesError);
+
+  return errors;
+}
+
+// Returns an error message when claudeArgs (possibly from imported JSON) isn't a list of strings, or null
+export function checkClaudeArgs(value: unknown): string | null {
+  if (value !== undefined && (!Array.isArray(value) || value.some(arg => typeof arg !== 'string'))) {
+    return 'claudeArgs must be a list of strings';
+  }
+  return null;
+}
+
+// Returns an error message when roleModels (possibly from imported JSON) names a role Claude Code
+// doesn't have or maps one to something other than a model name, or null
+export function checkRoleModels(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'roleModels must map roles to model names';
+  }
+  for (const [role, model] of Object.entries(value)) {
+    if (!(MODEL_ROLES as string[]).includes(role)) {
+      return `Unknown model role "${role}". Expected one of: ${MODEL_ROLES.join(', ')}`;
+    }
+    if (typeof model !== 'string') {
+      return 'roleModels must map roles to model names';
+    }
+  }
+  return null;
+}
@@ -0,0 +1,69 @@
+// Config store schema versions. Each migration upgrades a store from the previous version and
+// describes what it changed; config.ts runs them in order, backing the store up before each one.
+// Stores written before versioning have no schemaVersion and count as version 0.
+
+import { MODEL_ROLES, MODEL_ROLE_VARS } from './kinds.js';
+import { ProfileConfig } from '../types.js';
+
+export interface Migration {
+  version: number;  // The version the store is at afterwards
+  description: string;
+  migrate(store: ProfileConfig): string[];  // Changes the store in place; returns what changed
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Move model role variables from extraEnv to roleModels and drop the default kind',
+    migrate(store) {
+      const changes: string[] = [];
+      for (const profile of Object.values(store.profiles || {})) {
+        for (const role of MODEL_ROLES) {
+          const variable = MODEL_ROLE_VARS[role];
+          const model = profile.extraEnv?.[variable];
+          if (model === undefined) continue;
+
+          // A role model set explicitly already overrides the variable
+          if (!profile.roleModels?.[role]) {
+            profile.roleModels = { ...profile.roleModels, [role]: model };
+            changes.push(`profile "${profile.name}": extraEnv ${variable} -> roleModels.${role}`);
+          } else {
+            changes.push(`profile "${profile.name}": dropped extraEnv ${variable} (roleModels.${role} is set)`);
+          }
+          delete profile.extraEnv![variable];
+        }
+        if (profile.extraEnv && Object.keys(profile.extraEnv).length === 0) {
+          delete profile.extraEnv;
+        }
+
+        if (profile.kind === 'anthropic') {
+          delete profile.kind;
+          changes.push(`profile "${profile.name}": dropped kind "anthropic" (the default)`);
+        }
+      }
+      return changes;
+    }
+  },
+  {
+    version: 2,
+    description: 'Unpin defaultShell from the built-in default, so the shell is detected unless you set one',
+    migrate(store) {
+      // Older versions wrote this default into every store without ever reading it
+      const builtInDefault = process.platform === 'win32' ? 'powershell' : 'bash';
+      if (store.settings?.defaultShell !== builtInDefault) return [];
+      delete store.settings.defaultShell;
+      return [`settings: removed defaultShell "${builtInDefault}"`];
+    }
+  }
+];
+
+export const CONFIG_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(store: Partial<ProfileConfig>): number {
+  return store.schemaVersion ?? 0;
+}
+
+// The migrations a store at this version still needs, in order
+export function pendingMigrations(version: number): Migration[] {
+  return MIGRATIONS.filter(migration => migration.version > version);
+}
@@ -0,0 +1,189 @@
+// Per-project profile files (.ccenv.json / .ccxrc), resolved by walking up from the cwd
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkEnvKey, validateProfileFields } from './kinds.js';
+import { isSecretReference } from './secrets.js';
+import { Profile } from '../types.js';
+
+// Checked in this order in each directory
+export const PROJECT_FILES = ['.ccenv.json', '.ccxrc'];
+
+// An inline profile: profile fields without secrets, optionally extending a saved profile
+export type InlineProfile = Partial<Omit<Profile, 'apiKey' | 'claudePath' | 'claudeArgs' | 'clearAnthropicKey' | 'createdAt' | 'updatedAt'>> & {
+  extends?: string;
+};
+
+// The only extraEnv a project file may set: tuning knobs for Claude Code, none of which loads
+// code, redirects traffic or reads credentials
+const PROJECT_ENV_VARS = [
+  'API_TIMEOUT_MS',
+  'BASH_DEFAULT_TIMEOUT_MS',
+  'BASH_MAX_TIMEOUT_MS',
+  'BASH_MAX_OUTPUT_LENGTH',
+  'CLAUDE_CODE_MAX_OUTPUT_TOKENS',
+  'MAX_THINKING_TOKENS',
+  'MAX_MCP_OUTPUT_TOKENS',
+  'MCP_TIMEOUT',
+  'MCP_TOOL_TIMEOUT',
+  'DISABLE_TELEMETRY',
+  'DISABLE_ERROR_REPORTING',
+  'DISABLE_AUTOUPDATER',
+  'DISABLE_BUG_COMMAND',
+  'DISABLE_COST_WARNINGS',
+  'DISABLE_NON_ESSENTIAL_MODEL_CALLS',
+  'DISABLE_PROMPT_CACHING',
+  'CLAUDE_CODE_DISABLE_NONESSENTIAL_TRAFFIC',
+  'CLAUDE_CODE_DISABLE_TERMINAL_TITLE'
+];
+
+// With "extends", the saved profile's key goes wherever these point, so only the saved profile may set them
+const EXTENDS_LOCKED_FIELDS = ['baseUrl', 'kind', 'extraEnv'];
+
+export interface ProjectFile {
+  profile: string | InlineProfile;
+}
+
+export interface ProjectProfile {
+  profile: Profile;
+  source: string;  // Path of the file that supplied it
+  saved: boolean;  // Whether it names a profile from the config store
+}
+
+export function findProjectFile(startDir: string = process.cwd()): string | undefined {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    for (const file of PROJECT_FILES) {
+      const candidate = path.join(dir, file);
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+// What `ccx allow` records: the file's real path and a hash of its content, so the directory hook
+// stops applying a file once it changes until it is allowed again
+export function fingerprintProjectFile(file: string): { path: string; hash: string } {
+  return {
+    path: fs.realpathSync(file),
+    hash: createHash('sha256').update(fs.readFileSync(file)).digest('hex')
+  };
+}
+
+// .ccenv.json is JSON; .ccxrc may also be a bare profile name, like .nvmrc
+export function readProjectFile(file: string): ProjectFile {
+  const content = fs.readFileSync(file, 'utf8').trim();
+
+  if (path.basename(file) === '.ccxrc' && !content.startsWith('{')) {
+    if (!content) {
+      throw new Error(`${file}: file is empty`);
+    }
+    return { profile: content.split(/\r?\n/)[0].trim() };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (e) {
+    throw new Error(`${file}: invalid JSON (${(e as Error).message})`);
+  }
+
+  const profile = (parsed as ProjectFile | null)?.profile;
+  if (typeof profile !== 'string' && (typeof profile !== 'object' || profile === null || Array.isArray(profile))) {
+    throw new Error(`${file}: expected {"profile": "<name>"} or {"profile": { ... }}`);
+  }
+  return { profile };
+}
+
+function buildInlineProfile(inline: InlineProfile, file: string, loadProfile: ProfileLoader): Profile {
+  if ('apiKey' in inline) {
+    throw new Error(`${file}: project files must not contain apiKey. Use "extends" to borrow a saved profile's key.`);
+  }
+  // A cloned repository must not choose what `ccx run` executes or with which permissions
+  for (const field of ['claudePath', 'claudeArgs']) {
+    if (field in inline) {
+      throw new Error(`${file}: project files must not contain ${field}. Set it on a saved profile and use "extends".`);
+    }
+  }
+
+  // Keeping the user's own ANTHROPIC_API_KEY would hand it to whatever baseUrl the file names
+  if ('clearAnthropicKey' in inline) {
+    throw new Error(`${file}: project files must not contain clearAnthropicKey. Set it on a saved profile and use "extends".`);
+  }
+
+  const { extends: baseName, ...fields } = inline;
+  let base: Profile | undefined;
+  if (baseName) {
+    for (const field of EXTENDS_LOCKED_FIELDS) {
+      if (field in fields) {
+        throw new Error(`${file}: project files that use "extends" must not contain ${field}. Set it on the saved profile instead.`);
+      }
+    }
+    base = loadProfile(baseName);
+    if (!base) {
+      throw new Error(`${file}: profile "${baseName}" (extends) not found`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(fields.extraEnv || {})) {
+    const error = checkEnvKey(key);
+    if (error) throw new Error(`${file}: ${error}`);
+    if (!PROJECT_ENV_VARS.includes(key)) {
+      throw new Error(`${file}: project files may not set ${key}. Allowed in extraEnv: ${PROJECT_ENV_VARS.join(', ')}`);
+    }
+    // A cloned repository must not read the user's secrets into a profile it controls
+    if (typeof value === 'string' && isSecretReference(value)) {
+      throw new Error(`${file}: project files must not contain secret references (extraEnv.${key}). Set it on a saved profile and use "extends".`);
+    }
+  }
+
+  const now = new Date().toISOString();
+  const profile: Profile = {
+    provider: 'custom',
+    baseUrl: '',
+    clearAnthropicKey: true,
+    createdAt: now,
+    updatedAt: now,
+    ...base,
+    ...fields,
+    extraEnv: base?.extraEnv || fields.extraEnv ? { ...base?.extraEnv, ...fields.extraEnv } : undefined,
+    name: fields.name || `${path.basename(path.dirname(file))}-project`
+  };
+
+  const errors = validateProfileFields(profile);
+  if (errors.length > 0) {
+    throw new Error(`${file}: ${errors.join('; ')}`);
+  }
+  return profile;
+}
+
+// How saved profiles are read, usually config.getProfile
+export type ProfileLoader = (name: string) => Profile | undefined;
+
+// Throws with the offending file's path when it exists but can't be used
+export function resolveProjectProfile(
+  startDir: string,
+  loadProfile: ProfileLoader
+): ProjectProfile | undefined {
+  const file = findProjectFile(startDir);
+  if (!file) return undefined;
+
+  const { profile } = readProjectFile(file);
+
+  if (typeof profile === 'string') {
+    const saved = loadProfile(profile);
+    if (!saved) {
+      throw new Error(`${file}: profile "${profile}" not found`);
+    }
+    return { profile: saved, source: file, saved: true };
+  }
+
+  return { profile: buildInlineProfile(profile, file, loadProfile), source: file, saved: false };
+}
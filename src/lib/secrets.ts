@@ -0,0 +1,105 @@
+// Secret references: an API key or extra env value can name where the secret lives instead of
+// holding it. They're stored as written and resolved each time a profile is loaded for use.
+//
+//   env:NAME          an environment variable of the ccx process
+//   file:PATH         a file's contents (~ expands to the home directory)
+//   cmd:COMMAND       a shell command's output, e.g. cmd:pass show openrouter
+//   op://vault/item/field   a 1Password secret, read with the op CLI
+
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CcxError } from './errors.js';
+import { Profile } from '../types.js';
+
+const REFERENCE_PREFIXES = ['env:', 'file:', 'cmd:', 'op://'];
+
+// Long enough for a password manager to prompt for unlocking
+const COMMAND_TIMEOUT_MS = 120_000;
+
+export class SecretReferenceError extends CcxError {}
+
+export function isSecretReference(value: string): boolean {
+  return REFERENCE_PREFIXES.some(prefix => value.startsWith(prefix));
+}
+
+function expandHome(file: string): string {
+  return file === '~' || file.startsWith('~/') ? path.join(os.homedir(), file.slice(1)) : file;
+}
+
+// Run a command with its stdout captured; stdin and stderr stay on the terminal so it can prompt
+function runForOutput(file: string, args: string[], shell: boolean): string {
+  const result = spawnSync(file, args, {
+    encoding: 'utf8',
+    shell,
+    stdio: ['inherit', 'pipe', 'inherit'],
+    timeout: COMMAND_TIMEOUT_MS
+  });
+  if (result.error) {
+    const code = (result.error as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT') throw new Error(`${file} is not installed or not on PATH`);
+    if (code === 'ETIMEDOUT') throw new Error(`timed out after ${COMMAND_TIMEOUT_MS / 1000}s`);
+    throw result.error;
+  }
+  if (result.signal) throw new Error(`killed by ${result.signal}`);
+  if (result.status !== 0) throw new Error(`exited with status ${result.status}`);
+  return result.stdout;
+}
+
+function readReference(reference: string): string {
+  if (reference.startsWith('env:')) {
+    const name = reference.slice('env:'.length);
+    const value = process.env[name];
+    if (value === undefined) throw new Error(`${name} is not set`);
+    return value;
+  }
+  if (reference.startsWith('file:')) {
+    return fs.readFileSync(expandHome(reference.slice('file:'.length)), 'utf8');
+  }
+  if (reference.startsWith('cmd:')) {
+    return runForOutput(reference.slice('cmd:'.length), [], true);
+  }
+  return runForOutput('op', ['read', reference], false);
+}
+
+// The secret a reference points to, without the trailing newline files and commands usually add.
+// label says what the reference is for, so the error names it.
+export function resolveSecretReference(reference: string, label: string): string {
+  let value: string;
+  try {
+    value = readReference(reference).replace(/\r?\n$/, '');
+  } catch (e) {
+    throw new SecretReferenceError(`Cannot resolve ${label} (${reference}): ${(e as Error).message}`);
+  }
+  if (!value) {
+    throw new SecretReferenceError(`Cannot resolve ${label} (${reference}): it is empty`);
+  }
+  return value;
+}
+
+// The profile with every reference in apiKey and extraEnv replaced by its secret
+export function resolveProfileSecrets(profile: Profile): Profile {
+  const resolved = { ...profile };
+  const owner = `profile "${profile.name}"`;
+
+  if (resolved.apiKey && isSecretReference(resolved.apiKey)) {
+    resolved.apiKey = resolveSecretReference(resolved.apiKey, `the API key of ${owner}`);
+  }
+  if (resolved.extraEnv) {
+    resolved.extraEnv = Object.fromEntries(Object.entries(resolved.extraEnv).map(([key, value]) => [
+      key,
+      isSecretReference(value) ? resolveSecretReference(value, `${key} of ${owner}`) : value
+    ]));
+  }
+  return resolved;
+}
+
+// Names of the fields holding references, for places that must not accept them
+export function findSecretReferences(profile: Pick<Profile, 'apiKey' | 'extraEnv'>): string[] {
+  const fields = profile.apiKey && isSecretReference(profile.apiKey) ? ['apiKey'] : [];
+  for (const [key, value] of Object.entries(profile.extraEnv || {})) {
+    if (isSecretReference(value)) fields.push(`extraEnv.${key}`);
+  }
+  return fields;
+}
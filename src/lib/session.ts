@@ -0,0 +1,95 @@
+// Unlocked master-passphrase sessions: the derived key, cached in a file only the user can read under
+// $XDG_RUNTIME_DIR (a per-user tmpfs cleared at logout) until it expires. `ccx lock` removes it.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassphraseSettings } from '../types.js';
+
+export const DEFAULT_UNLOCK_MINUTES = 15;
+
+interface Session {
+  salt: string;  // Ties the session to the passphrase settings it was unlocked for
+  key: string;  // hex
+  expiresAt: number;  // ms since epoch
+}
+
+function getSessionDir(): string {
+  if (process.env.XDG_RUNTIME_DIR) {
+    return path.join(process.env.XDG_RUNTIME_DIR, 'ccx');
+  }
+  // No runtime dir (macOS, Windows): a per-user directory in the temp dir
+  const user = typeof process.getuid === 'function' ? String(process.getuid()) : os.userInfo().username;
+  return path.join(os.tmpdir(), `ccx-${user}`);
+}
+
+function getSessionFile(): string {
+  return path.join(getSessionDir(), 'session.json');
+}
+
+// Owned by the current user, not a symlink, and closed to group and others. The directory may be
+// in a shared temp dir, where someone else could create it first or plant a session with their key.
+function isPrivate(file: string, directory: boolean): boolean {
+  if (process.platform === 'win32') return true;
+  try {
+    const stat = fs.lstatSync(file);
+    const type = directory ? stat.isDirectory() : stat.isFile();
+    return type && stat.uid === process.getuid?.() && (stat.mode & 0o077) === 0;
+  } catch {
+    return false;
+  }
+}
+
+function ensurePrivateDir(dir: string): void {
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  if (!isPrivate(dir, true)) {
+    throw new Error(`${dir} must be a directory owned by you and private to you (chmod 700).`);
+  }
+}
+
+// A session that isn't private to us is ignored, as if locked
+function readSession(): Session | undefined {
+  const file = getSessionFile();
+  if (!isPrivate(getSessionDir(), true) || !isPrivate(file, false)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+// The session, if it is current and belongs to these settings
+function currentSession(settings: PassphraseSettings): Session | undefined {
+  const session = readSession();
+  if (!session || session.salt !== settings.salt) return undefined;
+  if (session.expiresAt <= Date.now()) {
+    clearSession();
+    return undefined;
+  }
+  return session;
+}
+
+export function readSessionKey(settings: PassphraseSettings): Buffer | undefined {
+  const session = currentSession(settings);
+  return session ? Buffer.from(session.key, 'hex') : undefined;
+}
+
+export function getSessionExpiry(settings: PassphraseSettings): number | undefined {
+  return currentSession(settings)?.expiresAt;
+}
+
+export function writeSession(key: Buffer, settings: PassphraseSettings, minutes: number): number {
+  const dir = getSessionDir();
+  ensurePrivateDir(dir);
+
+  const session: Session = { salt: settings.salt, key: key.toString('hex'), expiresAt: Date.now() + minutes * 60_000 };
+  // Written to a fresh file and renamed, so the mode applies even if an old session exists
+  const temp = path.join(dir, `session.${process.pid}.tmp`);
+  fs.writeFileSync(temp, JSON.stringify(session), { mode: 0o600 });
+  fs.renameSync(temp, getSessionFile());
+  return session.expiresAt;
+}
+
+export function clearSession(): void {
+  fs.rmSync(getSessionFile(), { force: true });
+}
@@ -0,0 +1,47 @@
+// Settings `ccx config` reads and writes, with their descriptions and value parsing.
+// The master passphrase is also in settings but is managed by `ccx passphrase`.
+
+import { SHELL_TYPES } from './shell.js';
+import { Settings, ShellType } from '../types.js';
+
+export type SettingKey = 'defaultShell' | 'encryptionEnabled' | 'claudePath';
+
+export const SETTING_DESCRIPTIONS: Record<SettingKey, string> = {
+  defaultShell: `Shell for ccx use/reset/pop without --shell (${SHELL_TYPES.join(', ')}); detected when unset`,
+  encryptionEnabled: 'Encrypt stored API keys with the host-derived key (true/false)',
+  claudePath: 'Claude Code executable for ccx run when claude isn\'t on PATH'
+};
+
+export const SETTING_KEYS = Object.keys(SETTING_DESCRIPTIONS) as SettingKey[];
+
+// Settings that always have a value
+const REQUIRED_SETTINGS: SettingKey[] = ['encryptionEnabled'];
+
+export function isSettingKey(key: string): key is SettingKey {
+  return (SETTING_KEYS as string[]).includes(key);
+}
+
+export function canUnsetSetting(key: SettingKey): boolean {
+  return !REQUIRED_SETTINGS.includes(key);
+}
+
+// Throws with a message for the user when the value doesn't fit the setting
+export function parseSettingValue<K extends SettingKey>(key: K, value: string): Settings[K] {
+  switch (key) {
+    case 'defaultShell':
+      if (!(SHELL_TYPES as string[]).includes(value)) {
+        throw new Error(`Unknown shell "${value}". Use one of: ${SHELL_TYPES.join(', ')}`);
+      }
+      return value as ShellType as Settings[K];
+    case 'encryptionEnabled':
+      if (value !== 'true' && value !== 'false') {
+        throw new Error(`encryptionEnabled must be true or false, not "${value}"`);
+      }
+      return (value === 'true') as Settings[K];
+    default:
+      if (!value) {
+        throw new Error(`${key} cannot be empty. Remove it with: ccx config unset ${key}`);
+      }
+      return value as Settings[K];
+  }
+}
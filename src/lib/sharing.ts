@@ -0,0 +1,69 @@
+// Profiles shared as JSON, by `ccx export`/`ccx import` and the web UI. A shared profile carries
+// no secrets, and an imported one must not choose what runs on this machine.
+
+import { checkEnvKey, validateProfileFields } from './kinds.js';
+import { findSecretReferences } from './secrets.js';
+import { Profile } from '../types.js';
+
+// Fields that only make sense on the machine that set them; dropped on export and on import
+const MACHINE_FIELDS = ['claudePath'] as const;
+
+const TEXT_FIELDS = ['apiKey', 'provider', 'kind', 'baseUrl', 'model', 'region', 'awsProfile', 'projectId', 'description'] as const;
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(item => typeof item === 'string');
+}
+
+// Without the API key for safety, and without machine-specific fields
+export function toSharedProfile(profile: Profile): Profile {
+  return { ...profile, apiKey: undefined, claudePath: undefined };
+}
+
+export interface ImportCheck {
+  errors: string[];  // Reasons the profile can't be imported
+  ignored: string[];  // Fields removed from the profile
+}
+
+// Check a profile parsed from shared JSON before it's saved, the way `ccx create` checks its
+// options: defaults filled in, fields removed that it may not set, and the kind's fields validated
+export function sanitizeImportedProfile(profile: Profile): ImportCheck {
+  profile.provider ??= 'custom';
+  profile.baseUrl ??= '';
+  profile.clearAnthropicKey ??= true;
+
+  const ignored: string[] = [];
+  for (const field of MACHINE_FIELDS) {
+    if (profile[field] !== undefined) {
+      delete profile[field];
+      ignored.push(field);
+    }
+  }
+
+  const errors: string[] = [];
+  for (const field of TEXT_FIELDS) {
+    if (profile[field] !== undefined && typeof profile[field] !== 'string') errors.push(`${field} must be a string`);
+  }
+  if (typeof profile.clearAnthropicKey !== 'boolean') errors.push('clearAnthropicKey must be true or false');
+  if (profile.extraEnv !== undefined) {
+    if (!isStringRecord(profile.extraEnv)) {
+      errors.push('extraEnv must map variable names to strings');
+      return { errors, ignored };
+    }
+    for (const key of Object.keys(profile.extraEnv)) {
+      const error = checkEnvKey(key);
+      if (error) errors.push(error);
+    }
+  }
+  if (errors.length > 0) return { errors, ignored };
+
+  errors.push(...validateProfileFields(profile));
+
+  // A reference would read files or run commands on this machine
+  const references = findSecretReferences(profile);
+  if (references.length > 0) {
+    errors.push(`Imported profiles cannot contain secret references (${references.join(', ')})`);
+  }
+
+  return { errors, ignored };
+}
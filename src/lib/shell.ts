@@ -1,23 +1,51 @@
 // Shell script generators for different shells
 
-import { Profile, ShellType, EnvVars } from '../types.js';
+import { Profile, ProfileKind, ShellType, EnvVars } from '../types.js';
+import { getProfileKind, getKindVars, getForeignSelectorVars, isValidEnvKey, MODEL_ROLE_VARS, MODEL_ROLES } from './kinds.js';
+import { PREVIOUS_ENV_VAR } from './stack.js';
+
+export const SHELL_TYPES: ShellType[] = [
+  'bash', 'zsh', 'fish', 'powershell', 'cmd', 'nushell', 'elvish', 'xonsh', 'tcsh', 'csh'
+];
 
 export function generateEnvVars(profile: Profile): EnvVars {
   const env: EnvVars = {};
+  const kind = getProfileKind(profile);
   
-  // Set the base URL
-  if (profile.baseUrl) {
-    env.ANTHROPIC_BASE_URL = profile.baseUrl;
+  // Clear vars that would route Claude Code to another kind of backend
+  for (const key of getForeignSelectorVars(kind)) {
+    env[key] = '';
   }
   
-  // Set the auth token (API key)
-  if (profile.apiKey) {
-    env.ANTHROPIC_AUTH_TOKEN = profile.apiKey;
+  switch (kind) {
+    case 'bedrock':
+      env.CLAUDE_CODE_USE_BEDROCK = '1';
+      if (profile.region) env.AWS_REGION = profile.region;
+      if (profile.awsProfile) env.AWS_PROFILE = profile.awsProfile;
+      // Bedrock API keys are sent as a bearer token
+      if (profile.apiKey) env.AWS_BEARER_TOKEN_BEDROCK = profile.apiKey;
+      if (profile.baseUrl) env.ANTHROPIC_BEDROCK_BASE_URL = profile.baseUrl;
+      break;
+    case 'vertex':
+      env.CLAUDE_CODE_USE_VERTEX = '1';
+      if (profile.region) env.CLOUD_ML_REGION = profile.region;
+      if (profile.projectId) env.ANTHROPIC_VERTEX_PROJECT_ID = profile.projectId;
+      if (profile.baseUrl) env.ANTHROPIC_VERTEX_BASE_URL = profile.baseUrl;
+      break;
+    default:
+      // Always written, so the previous profile's endpoint and token can't carry over
+      // (an OpenRouter key must not be sent to api.anthropic.com)
+      env.ANTHROPIC_BASE_URL = profile.baseUrl || '';
+      env.ANTHROPIC_AUTH_TOKEN = profile.apiKey || '';
   }
   
-  // Set the model if specified
-  if (profile.model) {
-    env.ANTHROPIC_MODEL = profile.model;
+  // Without a model of its own the profile gets Claude Code's default, not the last profile's
+  env.ANTHROPIC_MODEL = profile.model || '';
+  
+  // Map Claude Code's model roles so background/subagent calls use real model IDs; unmapped
+  // roles are cleared like the model above
+  for (const role of MODEL_ROLES) {
+    env[MODEL_ROLE_VARS[role]] = profile.roleModels?.[role] || '';
   }
   
   // Handle ANTHROPIC_API_KEY clearing
@@ -33,136 +61,247 @@ export function generateEnvVars(profile: Profile): EnvVars {
   return env;
 }
 
-export function generateShellScript(profile: Profile, shell: ShellType): string {
-  const env = generateEnvVars(profile);
+// restored: values put back on top of the profile's own, e.g. from recoverApiKey
+export function generateShellScript(
+  profile: Profile,
+  shell: ShellType,
+  previousEnv?: string,
+  restored: EnvVars = {}
+): string {
+  const env = { ...generateEnvVars(profile), ...restored };
+  
+  // Tracked after the profile's own variables so it's the last thing set
+  env.CCX_ACTIVE_PROFILE = profile.name;
+  if (previousEnv !== undefined) {
+    env[PREVIOUS_ENV_VAR] = previousEnv;
+  }
   
   switch (shell) {
-    case 'bash':
-    case 'zsh':
-      return generateBashScript(env, profile);
     case 'fish':
       return generateFishScript(env, profile);
     case 'powershell':
-      return generatePowerShellScript(env, profile);
+      return generatePowerShellScript(env);
     case 'cmd':
       return generateCmdScript(env, profile);
+    case 'nushell':
+      return generateNushellScript(env);
+    case 'elvish':
+    case 'xonsh':
+      return generateCommentedScript(shell, env, profile);
+    case 'tcsh':
+    case 'csh':
+      return generateCshScript(env);
     default:
       return generateBashScript(env, profile);
   }
 }
 
+// Quoting layer: every key and value written into a generated script goes through here,
+// since profiles can come from `ccx import` and must not be able to run commands on eval.
+
+function assertEnvKey(key: string): void {
+  if (!isValidEnvKey(key)) {
+    throw new Error(`Invalid environment variable name "${key}"`);
+  }
+}
+
+// Quote a value as a single literal word for the given shell
+export function quoteValue(shell: ShellType, value: string): string {
+  if (value.includes('\0')) {
+    throw new Error('Environment values cannot contain NUL characters');
+  }
+
+  switch (shell) {
+    case 'fish':
+      // Inside fish single quotes only \ and ' are special
+      return `'${value.replace(/[\\']/g, '\\$&')}'`;
+    case 'powershell':
+      // PowerShell also treats the typographic single quotes as quote characters
+      return `'${value.replace(/['\u2018\u2019\u201A\u201B]/g, '$&$&')}'`;
+    case 'elvish':
+      // Elvish single quotes are fully literal; '' is a quote
+      return `'${value.replace(/'/g, "''")}'`;
+    case 'xonsh':
+      // A JSON string is also a valid Python string literal
+      return JSON.stringify(value);
+    case 'tcsh':
+    case 'csh':
+      // History expansion sees ! even inside single quotes, and the script is eval'd as one line
+      if (/[\r\n]/.test(value)) {
+        throw new Error('csh cannot safely set values containing line breaks');
+      }
+      return `'${value.replace(/'/g, "'\\''").replace(/!/g, '\\!')}'`;
+    case 'nushell':
+      throw new Error('nushell scripts are JSON records; use generateShellScript');
+    case 'cmd':
+      // Quotes stop & | < > ^ from being operators; % still expands in batch files.
+      // A " would end the quoting and a line break would end the command, and neither can be escaped.
+      if (/["\r\n]/.test(value)) {
+        throw new Error('cmd cannot safely set values containing double quotes or line breaks');
+      }
+      return `"${value.replace(/%/g, '%%')}"`;
+    default:
+      // POSIX single quotes: nothing is special except ' itself
+      return `'${value.replace(/'/g, "'\\''")}'`;
+  }
+}
+
+// One line setting or (for '') unsetting a variable
+export function formatEnvLine(shell: ShellType, key: string, value: string): string {
+  assertEnvKey(key);
+
+  switch (shell) {
+    case 'fish':
+      return value === '' ? `set -e ${key}` : `set -gx ${key} ${quoteValue(shell, value)}`;
+    case 'powershell':
+      return value === ''
+        ? `Remove-Item Env:\\${key} -ErrorAction SilentlyContinue`
+        : `$env:${key} = ${quoteValue(shell, value)}`;
+    case 'elvish':
+      return value === '' ? `unset-env ${key}` : `set-env ${key} ${quoteValue(shell, value)}`;
+    case 'xonsh':
+      return value === '' ? `\${...}.pop('${key}', None)` : `$${key} = ${quoteValue(shell, value)}`;
+    case 'tcsh':
+    case 'csh':
+      return value === '' ? `unsetenv ${key}` : `setenv ${key} ${quoteValue(shell, value)}`;
+    case 'cmd':
+      // `set "KEY=value"` keeps the whole assignment inside the quotes
+      return `set "${key}=${quoteValue(shell, value).slice(1)}`;
+    default:
+      return value === '' ? `unset ${key}` : `export ${key}=${quoteValue(shell, value)}`;
+  }
+}
+
+// Comments are informational only, so anything unusual is replaced rather than escaped
+function comment(shell: ShellType, text: string): string {
+  const safe = text.replace(/[^\w .@:+/-]/g, '_');
+  return shell === 'cmd' ? `@REM ${safe}` : `# ${safe}`;
+}
+
+function envLines(shell: ShellType, env: EnvVars): string[] {
+  return Object.entries(env)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => formatEnvLine(shell, key, value));
+}
+
 function generateBashScript(env: EnvVars, profile: Profile): string {
   const lines: string[] = [
-    `# Claude Env - Profile: ${profile.name}`,
-    `# Generated: ${new Date().toISOString()}`,
+    comment('bash', `Claude Env - Profile: ${profile.name}`),
+    comment('bash', `Generated: ${new Date().toISOString()}`),
     ''
   ];
   
-  for (const [key, value] of Object.entries(env)) {
-    if (value === '') {
-      lines.push(`unset ${key}`);
-    } else if (value !== undefined) {
-      // Escape special characters
-      const escaped = value.replace(/'/g, "'\\''");
-      lines.push(`export ${key}='${escaped}'`);
-    }
-  }
-  
-  lines.push('');
-  lines.push(`# Active profile: ${profile.name}`);
-  lines.push(`export CCX_ACTIVE_PROFILE='${profile.name}'`);
+  lines.push(...envLines('bash', env));
   
   return lines.join('\n');
 }
 
 function generateFishScript(env: EnvVars, profile: Profile): string {
   const lines: string[] = [
-    `# Claude Env - Profile: ${profile.name}`,
-    `# Generated: ${new Date().toISOString()}`,
+    comment('fish', `Claude Env - Profile: ${profile.name}`),
+    comment('fish', `Generated: ${new Date().toISOString()}`),
     ''
   ];
   
-  for (const [key, value] of Object.entries(env)) {
-    if (value === '') {
-      lines.push(`set -e ${key}`);
-    } else if (value !== undefined) {
-      const escaped = value.replace(/'/g, "\\'");
-      lines.push(`set -gx ${key} '${escaped}'`);
-    }
-  }
-  
-  lines.push('');
-  lines.push(`set -gx CCX_ACTIVE_PROFILE '${profile.name}'`);
+  lines.push(...envLines('fish', env));
   
   return lines.join('\n');
 }
 
-function generatePowerShellScript(env: EnvVars, profile: Profile): string {
-  const lines: string[] = [];
-  
-  for (const [key, value] of Object.entries(env)) {
-    if (value === '') {
-      lines.push(`Remove-Item Env:\\${key} -ErrorAction SilentlyContinue`);
-    } else if (value !== undefined) {
-      // Escape for PowerShell
-      const escaped = value.replace(/'/g, "''");
-      lines.push(`$env:${key} = '${escaped}'`);
-    }
-  }
-  
-  lines.push(`$env:CCX_ACTIVE_PROFILE = '${profile.name}'`);
-  
+function generatePowerShellScript(env: EnvVars): string {
   // Join with semicolons for PowerShell to handle as single expression
-  return lines.join('; ');
+  return envLines('powershell', env).join('; ');
 }
 
 function generateCmdScript(env: EnvVars, profile: Profile): string {
   const lines: string[] = [
-    `@REM Claude Env - Profile: ${profile.name}`,
-    `@REM Generated: ${new Date().toISOString()}`,
+    comment('cmd', `Claude Env - Profile: ${profile.name}`),
+    comment('cmd', `Generated: ${new Date().toISOString()}`),
+    ''
+  ];
+  
+  lines.push(...envLines('cmd', env));
+  
+  return lines.join('\n');
+}
+
+// Elvish and xonsh: plain lines with a header comment
+function generateCommentedScript(shell: ShellType, env: EnvVars, profile: Profile): string {
+  const lines: string[] = [
+    comment(shell, `Claude Env - Profile: ${profile.name}`),
+    comment(shell, `Generated: ${new Date().toISOString()}`),
     ''
   ];
   
+  lines.push(...envLines(shell, env));
+  
+  return lines.join('\n');
+}
+
+// csh splits `eval "`ccx use`"` output on newlines into words, so it must be one line
+function generateCshScript(env: EnvVars): string {
+  return envLines('csh', env).join('; ');
+}
+
+// Nushell has no eval, so it gets a record to apply with hide-env / load-env
+function generateNushellScript(env: EnvVars): string {
+  const set: Record<string, string> = {};
+  const unset: string[] = [];
+  
   for (const [key, value] of Object.entries(env)) {
+    if (value === undefined) continue;
+    assertEnvKey(key);
+    if (value.includes('\0')) {
+      throw new Error('Environment values cannot contain NUL characters');
+    }
     if (value === '') {
-      lines.push(`set ${key}=`);
-    } else if (value !== undefined) {
-      lines.push(`set ${key}=${value}`);
+      unset.push(key);
+    } else {
+      set[key] = value;
     }
   }
   
-  lines.push('');
-  lines.push(`set CCX_ACTIVE_PROFILE=${profile.name}`);
-  
-  return lines.join('\n');
+  return JSON.stringify({ set, unset });
 }
 
-export function generateResetScript(shell: ShellType): string {
-  const varsToUnset = [
-    'ANTHROPIC_BASE_URL',
-    'ANTHROPIC_AUTH_TOKEN',
-    'ANTHROPIC_MODEL',
-    'CCX_ACTIVE_PROFILE'
-  ];
-  
+// Scripts without a profile header, for reset and restore
+function renderEnv(shell: ShellType, env: EnvVars): string {
   switch (shell) {
-    case 'bash':
-    case 'zsh':
-      return varsToUnset.map(v => `unset ${v}`).join('\n');
-    case 'fish':
-      return varsToUnset.map(v => `set -e ${v}`).join('\n');
+    case 'nushell':
+      return generateNushellScript(env);
     case 'powershell':
-      return varsToUnset.map(v => `Remove-Item Env:\\${v} -ErrorAction SilentlyContinue`).join('; ');
-    case 'cmd':
-      return varsToUnset.map(v => `set ${v}=`).join('\n');
+    case 'tcsh':
+    case 'csh':
+      return envLines(shell, env).join('; ');
     default:
-      return varsToUnset.map(v => `unset ${v}`).join('\n');
+      return envLines(shell, env).join('\n');
   }
 }
 
+// Put back recorded values; previousEnv is the remaining stack, or undefined to drop it
+export function generateRestoreScript(shell: ShellType, vars: EnvVars, previousEnv?: string): string {
+  const env: EnvVars = { ...vars, [PREVIOUS_ENV_VAR]: previousEnv ?? '' };
+  return renderEnv(shell, env);
+}
+
+export function generateResetScript(shell: ShellType, kind: ProfileKind = 'anthropic'): string {
+  const varsToUnset = [...getKindVars(kind), 'CCX_ACTIVE_PROFILE', PREVIOUS_ENV_VAR];
+  return renderEnv(shell, Object.fromEntries(varsToUnset.map(v => [v, ''])));
+}
+
 export function detectShell(): ShellType {
+  // These set a variable for their child processes even when they aren't the login shell
+  if (process.env.NU_VERSION) return 'nushell';
+  if (process.env.XONSH_VERSION) return 'xonsh';
+  
   const shell = process.env.SHELL || process.env.ComSpec || '';
+  const name = shell.split(/[\\/]/).pop() || '';
   
+  if (name === 'nu') return 'nushell';
+  if (name.includes('elvish')) return 'elvish';
+  if (name.includes('xonsh')) return 'xonsh';
+  if (name.includes('tcsh')) return 'tcsh';
+  if (name === 'csh') return 'csh';
   if (shell.includes('fish')) return 'fish';
   if (shell.includes('zsh')) return 'zsh';
   if (shell.includes('bash')) return 'bash';
@@ -0,0 +1,70 @@
+// Stack of environments replaced by `ccx use`, kept in the shell itself so `ccx pop`/`ccx reset` can restore them
+
+import { EnvVars, Profile } from '../types.js';
+
+export const PREVIOUS_ENV_VAR = 'CCX_PREVIOUS_ENV';
+
+// Values a `ccx use` replaced; '' means the variable was unset
+export interface EnvFrame {
+  vars: Record<string, string>;
+  hook?: boolean;  // Pushed by the directory hook, which pops back to it when leaving the project
+}
+
+// base64url keeps the value free of quotes and shell metacharacters
+export function encodeEnvStack(stack: EnvFrame[]): string {
+  return Buffer.from(JSON.stringify(stack), 'utf8').toString('base64url');
+}
+
+// A missing or mangled value is treated as an empty stack
+export function readEnvStack(env: NodeJS.ProcessEnv = process.env): EnvFrame[] {
+  const encoded = env[PREVIOUS_ENV_VAR];
+  if (!encoded) return [];
+
+  try {
+    const parsed = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (frame): frame is EnvFrame =>
+        typeof frame === 'object' && frame !== null && typeof frame.vars === 'object' && frame.vars !== null
+    );
+  } catch {
+    return [];
+  }
+}
+
+// Record the current values of the variables about to be replaced
+export function captureEnvFrame(keys: string[], env: NodeJS.ProcessEnv = process.env): EnvFrame {
+  const vars: Record<string, string> = {};
+  for (const key of keys) {
+    vars[key] = env[key] ?? '';
+  }
+  return { vars };
+}
+
+// Index of the newest frame the directory hook pushed, or -1. Frames above it were applied by
+// hand inside the project and go when the hook pops.
+export function findHookFrame(stack: EnvFrame[]): number {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (stack[i].hook) return i;
+  }
+  return -1;
+}
+
+// Values that undo every frame at once: the oldest frame wins for each variable
+export function collapseEnvStack(stack: EnvFrame[]): EnvVars {
+  const vars: EnvVars = {};
+  for (const frame of stack) {
+    for (const [key, value] of Object.entries(frame.vars)) {
+      if (!(key in vars)) vars[key] = value;
+    }
+  }
+  return vars;
+}
+
+// A profile that keeps ANTHROPIC_API_KEY gets back the key an earlier `ccx use` in this shell
+// cleared, so switching from a third-party profile to the official API doesn't lose it
+export function recoverApiKey(profile: Profile, env: NodeJS.ProcessEnv = process.env): EnvVars {
+  if (profile.clearAnthropicKey || env.ANTHROPIC_API_KEY) return {};
+  const original = collapseEnvStack(readEnvStack(env)).ANTHROPIC_API_KEY;
+  return original ? { ANTHROPIC_API_KEY: original } : {};
+}
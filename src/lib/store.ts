@@ -0,0 +1,37 @@
+// Location of the config store, and a read-only view of it that doesn't load conf.
+// Shell completion and the prompt segment run on every keystroke/prompt and read the file directly.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProfileConfig } from '../types.js';
+
+// conf's projectName plus the "-nodejs" suffix it adds (via env-paths)
+const STORE_NAME = 'claude-env-nodejs';
+
+// Same directories env-paths picks for conf
+export function getConfigDir(): string {
+  const home = os.homedir();
+
+  switch (process.platform) {
+    case 'darwin':
+      return path.join(home, 'Library', 'Preferences', STORE_NAME);
+    case 'win32':
+      return path.join(process.env.APPDATA || path.join(home, 'AppData', 'Roaming'), STORE_NAME, 'Config');
+    default:
+      return path.join(process.env.XDG_CONFIG_HOME || path.join(home, '.config'), STORE_NAME);
+  }
+}
+
+export function getStorePath(): string {
+  return path.join(getConfigDir(), 'config.json');
+}
+
+// A missing or unreadable store reads as empty; only conf ever writes it
+export function readStoreSnapshot(): Partial<ProfileConfig> {
+  try {
+    return JSON.parse(fs.readFileSync(getStorePath(), 'utf8'));
+  } catch {
+    return {};
+  }
+}
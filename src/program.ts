@@ -0,0 +1,629 @@
+// Claude Env (ccx) - command definitions, loaded by cli.ts for everything but the hot-path commands
+
+import { Command, Option } from 'commander';
+import {
+  listProfiles,
+  showProfile,
+  createProfile,
+  editProfile,
+  deleteProfileCommand,
+  useProfile,
+  resetEnvironment,
+  popEnvironment,
+  showCurrent,
+  showTemplates,
+  exportProfile,
+  importProfile
+} from './commands/profile.js';
+import { listUserTemplates, createTemplate, editTemplate, deleteTemplate } from './commands/template.js';
+import { listEnv, setEnv, unsetEnv, exportEnv, parseEnvAssignments } from './commands/env.js';
+import { runCi, DEFAULT_API_KEY_ENV } from './commands/ci.js';
+import { printPrompt } from './commands/prompt.js';
+import { allowProject, denyProject } from './commands/project.js';
+import { setPassphrase, removePassphrase, unlock, lock } from './commands/passphrase.js';
+import { verifyKeys, rekeyKeys } from './commands/keys.js';
+import { listSettings, getSetting, setSetting, unsetSetting, migrateConfig, upgradeConfig } from './commands/config.js';
+import { runSetupWizard, runQuickSetup } from './commands/wizard.js';
+import { listModels, getModelInfo, searchModelsInteractive } from './commands/models.js';
+import { getConfigPath } from './lib/config.js';
+import { CcxError } from './lib/errors.js';
+import { DEFAULT_UNLOCK_MINUTES } from './lib/session.js';
+import { generateHookScript } from './lib/hooks.js';
+import { generateInitScript } from './lib/init.js';
+import { generateCompletionScript } from './lib/completion.js';
+import { parseParamArgs } from './templates/providers.js';
+import { ShellType } from './types.js';
+
+const program = new Command();
+
+// Accumulate repeatable options into an array
+function collect(value: string, previous: string[]): string[] {
+  return previous.concat([value]);
+}
+
+function parseParamOption(args: string[]): Record<string, string> {
+  try {
+    return parseParamArgs(args);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+}
+
+function parseEnvOption(args: string[]): Record<string, string> {
+  try {
+    return parseEnvAssignments(args);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+}
+
+program
+  .name('ccx')
+  .description('Environment Orchestrator and Context Switcher for Claude Code CLI')
+  .version('1.0.0')
+  // Lets `ccx run` pass options after the profile name through to claude
+  .enablePositionalOptions();
+
+// List all profiles
+program
+  .command('list')
+  .alias('ls')
+  .description('List all profiles')
+  .action(listProfiles);
+
+// Show a specific profile
+program
+  .command('show <name>')
+  .description('Show profile details')
+  .action(showProfile);
+
+// Create a new profile
+program
+  .command('create <name>')
+  .description('Create a new profile')
+  .option('-t, --template <template>', 'Use a provider template')
+  .option('--kind <kind>', 'Profile kind: anthropic, bedrock, vertex')
+  .option('-u, --base-url <url>', 'API base URL')
+  .option('-m, --model <model>', 'Default model')
+  .option('-k, --api-key <key>', 'API key, or a secret reference (env:, file:, cmd:, op://)')
+  .option('-d, --description <desc>', 'Profile description')
+  .option('--region <region>', 'AWS region (bedrock) or Vertex region')
+  .option('--aws-profile <name>', 'AWS profile (bedrock)')
+  .option('--project-id <id>', 'GCP project ID (vertex)')
+  .option('--opus-model <model>', 'Model for the opus role (ANTHROPIC_DEFAULT_OPUS_MODEL)')
+  .option('--sonnet-model <model>', 'Model for the sonnet role (ANTHROPIC_DEFAULT_SONNET_MODEL)')
+  .option('--haiku-model <model>', 'Model for the haiku role (ANTHROPIC_DEFAULT_HAIKU_MODEL)')
+  .option('--small-fast-model <model>', 'Model for background tasks (ANTHROPIC_SMALL_FAST_MODEL)')
+  .option('--clear-key', 'Unset ANTHROPIC_API_KEY when using this profile')
+  .option('--no-clear-key', 'Keep ANTHROPIC_API_KEY when using this profile')
+  .option('--env <KEY=VALUE>', 'Extra environment variable (repeatable)', collect, [])
+  .option('--unset-env <KEY>', 'Drop an extra variable the template sets (repeatable)', collect, [])
+  .option('--param <name=value>', 'Template parameter (repeatable)', collect, [])
+  .option('--claude-arg <arg>', 'Argument ccx run passes to claude (repeatable)', collect, [])
+  .option('--claude-path <path>', 'Claude Code executable for ccx run')
+  .action((name, options) => {
+    createProfile(name, {
+      template: options.template,
+      kind: options.kind,
+      baseUrl: options.baseUrl,
+      model: options.model,
+      apiKey: options.apiKey,
+      description: options.description,
+      clearKey: options.clearKey,
+      params: parseParamOption(options.param),
+      env: parseEnvOption(options.env),
+      unsetEnv: options.unsetEnv,
+      claudeArgs: options.claudeArg,
+      claudePath: options.claudePath,
+      region: options.region,
+      awsProfile: options.awsProfile,
+      projectId: options.projectId,
+      roleModels: {
+        opus: options.opusModel,
+        sonnet: options.sonnetModel,
+        haiku: options.haikuModel,
+        smallFast: options.smallFastModel
+      }
+    });
+  });
+
+// Edit an existing profile
+program
+  .command('edit <name>')
+  .description('Edit an existing profile')
+  .option('--kind <kind>', 'Profile kind: anthropic, bedrock, vertex')
+  .option('-u, --base-url <url>', 'API base URL')
+  .option('-m, --model <model>', 'Default model')
+  .option('-k, --api-key <key>', 'API key, or a secret reference (env:, file:, cmd:, op://)')
+  .option('-d, --description <desc>', 'Profile description')
+  .option('--region <region>', 'AWS region (bedrock) or Vertex region')
+  .option('--aws-profile <name>', 'AWS profile (bedrock)')
+  .option('--project-id <id>', 'GCP project ID (vertex)')
+  .option('--opus-model <model>', 'Model for the opus role (ANTHROPIC_DEFAULT_OPUS_MODEL)')
+  .option('--sonnet-model <model>', 'Model for the sonnet role (ANTHROPIC_DEFAULT_SONNET_MODEL)')
+  .option('--haiku-model <model>', 'Model for the haiku role (ANTHROPIC_DEFAULT_HAIKU_MODEL)')
+  .option('--small-fast-model <model>', 'Model for background tasks (ANTHROPIC_SMALL_FAST_MODEL)')
+  .option('--clear-key', 'Unset ANTHROPIC_API_KEY when using this profile')
+  .option('--no-clear-key', 'Keep ANTHROPIC_API_KEY when using this profile')
+  .option('--env <KEY=VALUE>', 'Set an extra environment variable (repeatable)', collect, [])
+  .option('--unset-env <KEY>', 'Remove an extra environment variable (repeatable)', collect, [])
+  .option('--claude-arg <arg>', 'Replace the arguments ccx run passes to claude (repeatable)', collect, [])
+  .option('--clear-claude-args', 'Remove the arguments ccx run passes to claude')
+  .option('--claude-path <path>', 'Claude Code executable for ccx run (empty to use the global one)')
+  .action((name, options) => {
+    editProfile(name, {
+      env: parseEnvOption(options.env),
+      unsetEnv: options.unsetEnv,
+      claudeArgs: options.clearClaudeArgs ? [] : (options.claudeArg.length > 0 ? options.claudeArg : undefined),
+      claudePath: options.claudePath,
+      kind: options.kind,
+      baseUrl: options.baseUrl,
+      model: options.model,
+      apiKey: options.apiKey,
+      description: options.description,
+      clearKey: options.clearKey,
+      region: options.region,
+      awsProfile: options.awsProfile,
+      projectId: options.projectId,
+      roleModels: {
+        opus: options.opusModel,
+        sonnet: options.sonnetModel,
+        haiku: options.haikuModel,
+        smallFast: options.smallFastModel
+      }
+    });
+  });
+
+// Delete a profile
+program
+  .command('delete <name>')
+  .alias('rm')
+  .description('Delete a profile')
+  .option('-f, --force', 'Force deletion without confirmation')
+  .action((name, options) => {
+    deleteProfileCommand(name, options.force);
+  });
+
+// Use/activate a profile (outputs shell script for eval)
+program
+  .command('use [name]')
+  .description('Activate a profile, or the project profile when no name is given (use with eval)')
+  .option('-s, --shell <shell>', 'Shell type: bash, zsh, fish, powershell, cmd, nushell, elvish, xonsh, tcsh, csh')
+  .addOption(new Option('--hook', 'Called by the directory hook').hideHelp())
+  .action((name, options) => {
+    useProfile(name, options.shell as ShellType, { hook: options.hook });
+  });
+
+// Reset to default (unset all ccx env vars)
+program
+  .command('reset')
+  .description('Restore the environment from before ccx use (use with eval)')
+  .option('-s, --shell <shell>', 'Shell type: bash, zsh, fish, powershell, cmd, nushell, elvish, xonsh, tcsh, csh')
+  .action((options) => {
+    resetEnvironment(options.shell as ShellType);
+  });
+
+// Undo the last `ccx use`
+program
+  .command('pop')
+  .description('Go back to the environment before the last ccx use (use with eval)')
+  .option('-s, --shell <shell>', 'Shell type: bash, zsh, fish, powershell, cmd, nushell, elvish, xonsh, tcsh, csh')
+  .addOption(new Option('--hook', 'Called by the directory hook').hideHelp())
+  .action((options) => {
+    popEnvironment(options.shell as ShellType, { hook: options.hook });
+  });
+
+// Shell integration: a ccx function that applies use/reset/pop without eval (eval in shell rc)
+program
+  .command('init <shell>')
+  .description('Print a shell function so ccx use/reset/pop work without eval: bash, zsh, fish, powershell')
+  .action((shell: string) => {
+    try {
+      console.log(generateInitScript(shell as ShellType));
+    } catch (e) {
+      console.error((e as Error).message);
+      process.exit(1);
+    }
+  });
+
+// Directory hook: switch to the project profile on cd (eval in shell rc)
+program
+  .command('hook <shell>')
+  .description('Print a shell hook that applies the project profile on cd: bash, zsh, fish, powershell')
+  .action((shell: string) => {
+    try {
+      console.log(generateHookScript(shell as ShellType));
+    } catch (e) {
+      console.error((e as Error).message);
+      process.exit(1);
+    }
+  });
+
+// Trust a project file for the directory hook (like direnv allow)
+program
+  .command('allow [path]')
+  .description('Let the directory hook apply a project file (the nearest one by default) until it changes')
+  .action((target?: string) => {
+    allowProject(target);
+  });
+
+program
+  .command('deny [path]')
+  .description('Stop the directory hook from applying a project file')
+  .action((target?: string) => {
+    denyProject(target);
+  });
+
+// Prompt segment (handled in cli.ts before this program loads; registered for help and completion)
+program
+  .command('prompt')
+  .description('Print the active profile for PS1 or starship, with "!" when the env has drifted')
+  .option('--starship', 'Print a starship custom module that shows the segment')
+  .action((options) => {
+    printPrompt(options.starship ? ['--starship'] : []);
+  });
+
+// Show current status
+program
+  .command('current')
+  .alias('status')
+  .description('Show current profile and environment status')
+  .action(showCurrent);
+
+// Manage a profile's extra environment variables
+program
+  .command('env <profile> [action] [args...]')
+  .description('Manage extra env vars: list (default), set KEY=VALUE..., unset KEY...; or export with --format')
+  .option('-f, --format <format>', 'Export the full environment: dotenv, docker, json, systemd, k8s-secret')
+  .option('--include-secrets', 'Include the API key in --format output')
+  .action((profile, action, args: string[], options) => {
+    if (options.format) {
+      if (action) {
+        console.error('--format exports the whole environment and takes no action.');
+        process.exit(1);
+      }
+      exportEnv(profile, options.format, Boolean(options.includeSecrets));
+      return;
+    }
+
+    switch (action || 'list') {
+      case 'list':
+        listEnv(profile);
+        break;
+      case 'set':
+        setEnv(profile, args);
+        break;
+      case 'unset':
+        unsetEnv(profile, args);
+        break;
+      default:
+        console.error(`Unknown action "${action}". Use list, set or unset.`);
+        process.exit(1);
+    }
+  });
+
+// Export a profile to later CI job steps
+program
+  .command('ci [profile]')
+  .description('Export a profile (or the project profile) to $GITHUB_ENV or a dotenv artifact')
+  .option('--api-key-env <var>', `Read the API key from this env var (default: ${DEFAULT_API_KEY_ENV} when set)`)
+  .option('--dotenv <file>', 'Write a dotenv file instead of $GITHUB_ENV (default on GitLab: ccx.env)')
+  .option('--include-secrets', 'Include the API key in the dotenv file')
+  .action((profile, options) => {
+    runCi(profile, options);
+  });
+
+// Show available templates
+program
+  .command('templates')
+  .description('List available provider templates')
+  .action(showTemplates);
+
+// Manage user-defined templates
+const templateCommand = program
+  .command('template')
+  .description('Manage user-defined provider templates');
+
+templateCommand
+  .command('list')
+  .alias('ls')
+  .description('List user-defined templates')
+  .action(listUserTemplates);
+
+templateCommand
+  .command('create <name>')
+  .description('Create a user-defined template')
+  .option('--kind <kind>', 'Profile kind: anthropic, bedrock, vertex')
+  .option('--region <region>', 'Default region (bedrock/vertex)')
+  .option('-u, --base-url <url>', 'API base URL')
+  .option('-m, --model <model>', 'Default model')
+  .option('-n, --display-name <name>', 'Display name')
+  .option('-d, --description <desc>', 'Template description')
+  .option('-i, --instructions <text>', 'Setup instructions shown when creating profiles')
+  .option('--requires-key', 'Profiles from this template need an API key')
+  .option('--no-requires-key', 'Profiles from this template do not need an API key')
+  .option('--clear-key', 'Unset ANTHROPIC_API_KEY when using this template')
+  .option('--no-clear-key', 'Keep ANTHROPIC_API_KEY when using this template')
+  .option('--define <name[=default]>', 'Declare a {{name}} placeholder parameter (repeatable)', collect, [])
+  .option('--env <KEY=VALUE>', 'Extra environment variable, may use {{placeholders}} (repeatable)', collect, [])
+  .action((name, options) => {
+    createTemplate(name, { ...options, env: parseEnvOption(options.env) });
+  });
+
+templateCommand
+  .command('edit <name>')
+  .description('Edit a user-defined template')
+  .option('--kind <kind>', 'Profile kind: anthropic, bedrock, vertex')
+  .option('--region <region>', 'Default region (bedrock/vertex)')
+  .option('-u, --base-url <url>', 'API base URL')
+  .option('-m, --model <model>', 'Default model')
+  .option('-n, --display-name <name>', 'Display name')
+  .option('-d, --description <desc>', 'Template description')
+  .option('-i, --instructions <text>', 'Setup instructions shown when creating profiles')
+  .option('--requires-key', 'Profiles from this template need an API key')
+  .option('--no-requires-key', 'Profiles from this template do not need an API key')
+  .option('--clear-key', 'Unset ANTHROPIC_API_KEY when using this template')
+  .option('--no-clear-key', 'Keep ANTHROPIC_API_KEY when using this template')
+  .option('--define <name[=default]>', 'Declare a {{name}} placeholder parameter (repeatable)', collect, [])
+  .option('--env <KEY=VALUE>', 'Extra environment variable, may use {{placeholders}} (repeatable)', collect, [])
+  .option('--unset-env <KEY>', 'Drop an extra environment variable (repeatable)', collect, [])
+  .action((name, options) => {
+    editTemplate(name, {
+      ...options,
+      env: options.env.length > 0 ? parseEnvOption(options.env) : undefined,
+      unsetEnv: options.unsetEnv.length > 0 ? options.unsetEnv : undefined
+    });
+  });
+
+templateCommand
+  .command('delete <name>')
+  .alias('rm')
+  .description('Delete a user-defined template')
+  .action(deleteTemplate);
+
+// Models command - list, search, info
+program
+  .command('models [search]')
+  .description('List and search available models from OpenRouter')
+  .option('-l, --limit <number>', 'Max models to show', '30')
+  .option('-i, --info <model>', 'Show detailed info for a specific model')
+  .option('--interactive', 'Interactive model selection')
+  .action(async (search, options) => {
+    if (options.info) {
+      await getModelInfo(options.info);
+    } else if (options.interactive) {
+      const model = await searchModelsInteractive();
+      if (model) {
+        console.log(`\nSelected: ${model}`);
+        console.log(`\nUse with: ccx create <profile> --template openrouter --model ${model}`);
+      }
+    } else {
+      await listModels(search, parseInt(options.limit));
+    }
+  });
+
+// Interactive setup wizard
+program
+  .command('setup')
+  .description('Interactive profile setup wizard')
+  .option('-t, --template <template>', 'Quick setup with a specific template')
+  .option('--param <name=value>', 'Template parameter (repeatable)', collect, [])
+  .action(async (options) => {
+    const params = parseParamOption(options.param);
+    if (options.template) {
+      await runQuickSetup(options.template, params);
+    } else {
+      await runSetupWizard(params);
+    }
+  });
+
+// Export a profile (without API key)
+program
+  .command('export <name>')
+  .description('Export profile as JSON (without API key)')
+  .action(exportProfile);
+
+// Import a profile
+program
+  .command('import <json>')
+  .description('Import profile from JSON')
+  .option('-n, --name <name>', 'Override profile name')
+  .action((json, options) => {
+    importProfile(json, options.name);
+  });
+
+// Show config file path
+program
+  .command('config-path')
+  .description('Show configuration file path')
+  .action(() => {
+    console.log(getConfigPath());
+  });
+
+// Quick alias commands for common operations
+program
+  .command('official')
+  .description('Quick switch to official Anthropic (creates profile if needed)')
+  .action(async () => {
+    const { profileExists } = await import('./lib/config.js');
+    if (!profileExists('official')) {
+      createProfile('official', { template: 'official' });
+    }
+    useProfile('official');
+  });
+
+program
+  .command('openrouter')
+  .description('Quick setup/switch to OpenRouter')
+  .action(async () => {
+    const { profileExists } = await import('./lib/config.js');
+    if (!profileExists('openrouter')) {
+      await runQuickSetup('openrouter');
+    } else {
+      useProfile('openrouter');
+    }
+  });
+
+// Run Claude with a specific profile
+program
+  .command('run [name] [args...]')
+  .description('Activate profile and launch Claude Code directly (defaults to the project profile); args after the name or -- go to claude')
+  .option('-p, --profile <name>', 'Profile to use')
+  .option('--base-url <url>', 'Run once against this API base URL instead of a saved profile')
+  .option('--model <model>', 'Model for the one-off run')
+  .option('--api-key-env <VAR>', 'Environment variable holding the API key for the one-off run')
+  .option('--template <template>', 'Provider template for the one-off run')
+  .option('--param <name=value>', 'Template parameter (repeatable)', collect, [])
+  .option('--save <name>', 'Save the one-off profile under this name if Claude exits successfully')
+  .passThroughOptions()
+  .action(async (name: string | undefined, args: string[], options) => {
+    // Options after the name are passed through verbatim, including the `--` separator
+    let forwarded = args[0] === '--' ? args.slice(1) : args;
+    
+    // With nothing before `--` (`ccx run -- --resume`), commander reads the first forwarded arg as the name
+    const tokens = process.argv.slice(process.argv.indexOf('run') + 1);
+    const separator = tokens.indexOf('--');
+    if (name !== undefined && separator !== -1 && separator < tokens.indexOf(name)) {
+      forwarded = [name, ...forwarded];
+      name = undefined;
+    }
+    
+    const profileName = name || options.profile;
+    const { runWithProfile, runProject, runAdHoc } = await import('./commands/profile.js');
+    
+    const adHoc = options.baseUrl || options.model || options.apiKeyEnv || options.template || options.save ||
+      options.param.length > 0;
+    if (adHoc) {
+      if (profileName) {
+        console.error('A profile name can\'t be combined with the one-off run options (--base-url, --model, --api-key-env, --template, --param, --save).');
+        process.exit(1);
+      }
+      await runAdHoc({
+        template: options.template,
+        baseUrl: options.baseUrl,
+        model: options.model,
+        apiKeyEnv: options.apiKeyEnv,
+        params: parseParamOption(options.param),
+        save: options.save
+      }, forwarded);
+    } else if (profileName) {
+      await runWithProfile(profileName, forwarded);
+    } else {
+      await runProject(forwarded);
+    }
+  });
+
+// Run any command with a profile's environment
+program
+  .command('exec <profile> <command...>')
+  .description('Run any command with a profile\'s environment (ccx exec <profile> [--] <command> [args...])')
+  .passThroughOptions()
+  .action(async (profile: string, command: string[]) => {
+    // Options after the profile belong to the command; a leading `--` is optional
+    const { execWithProfile } = await import('./commands/profile.js');
+    await execWithProfile(profile, command[0] === '--' ? command.slice(1) : command);
+  });
+
+// The config store itself
+const configCommand = program
+  .command('config')
+  .description('Show or change settings, or upgrade the config store');
+
+configCommand
+  .command('list')
+  .description('Show all settings')
+  .action(() => listSettings());
+
+configCommand
+  .command('get <key>')
+  .description('Print a setting (exits with 1 when it isn\'t set)')
+  .action((key: string) => getSetting(key));
+
+configCommand
+  .command('set <key> <value>')
+  .description('Change a setting: defaultShell, encryptionEnabled, claudePath')
+  .action((key: string, value: string) => setSetting(key, value));
+
+configCommand
+  .command('unset <key>')
+  .description('Remove a setting, going back to its default')
+  .action((key: string) => unsetSetting(key));
+
+const migrateCommand = configCommand
+  .command('migrate')
+  .description('Upgrade the config to the current schema (done automatically before other commands)')
+  .option('--dry-run', 'Show what would change without writing anything')
+  .action((options) => migrateConfig(options));
+
+// Upgrade an older store before any command reads it; `config migrate` does it itself, or previews it
+program.hook('preAction', (_, actionCommand) => {
+  if (actionCommand !== migrateCommand) upgradeConfig();
+});
+
+// Checking and recovering stored API keys
+const keysCommand = program
+  .command('keys')
+  .description('Check stored API keys and recover them after a hostname or username change');
+
+keysCommand
+  .command('verify')
+  .description('Report every profile whose API key cannot be decrypted')
+  .action(() => verifyKeys());
+
+keysCommand
+  .command('rekey')
+  .description('Re-encrypt API keys stored under an old hostname or username')
+  .option('--from-hostname <hostname>', 'Hostname the keys were stored under (default: the current one)')
+  .option('--from-user <user>', 'Username the keys were stored under (default: the current one)')
+  .action((options) => rekeyKeys(options));
+
+// Master passphrase for API keys
+const passphraseCommand = program
+  .command('passphrase')
+  .description('Protect API keys with a master passphrase');
+
+passphraseCommand
+  .command('set')
+  .description('Set or change the master passphrase and re-encrypt all API keys with it')
+  .action(setPassphrase);
+
+passphraseCommand
+  .command('remove')
+  .description('Go back to the host-derived key and re-encrypt all API keys with it')
+  .action(removePassphrase);
+
+program
+  .command('unlock')
+  .description('Enter the master passphrase so ccx can use API keys for a while')
+  .option('-t, --timeout <minutes>', 'Minutes until the keys lock again', String(DEFAULT_UNLOCK_MINUTES))
+  .action((options) => unlock(options.timeout));
+
+program
+  .command('lock')
+  .description('Forget the unlocked master passphrase session now')
+  .action(lock);
+
+// Shell completion (generated from the commands above, so it must be registered last)
+program
+  .command('completion <shell>')
+  .description('Print a shell completion script: bash, zsh, fish, powershell')
+  .action((shell: string) => {
+    try {
+      console.log(generateCompletionScript(program, shell as ShellType));
+    } catch (e) {
+      console.error((e as Error).message);
+      process.exit(1);
+    }
+  });
+
+// Parse and execute; errors meant for the user (a locked key store, an unresolvable secret
+// reference) can come from any command that reads a profile, so they're reported here
+try {
+  await program.parseAsync();
+} catch (e) {
+  if (!(e instanceof CcxError)) throw e;
+  console.error(e.message);
+  process.exit(1);
+}
@@ -2,15 +2,20 @@ import express, { Request, Response } from 'express';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import * as config from './lib/config.js';
-import { listTemplates, getTemplate } from './templates/providers.js';
+import { listTemplates, getTemplate, findPlaceholders } from './templates/providers.js';
 import { generateShellScript, generateResetScript } from './lib/shell.js';
-import { ShellType } from './types.js';
+import { getProfileKind, validateProfileFields, changeProfileKind, isProfileKind, MODEL_ROLES } from './lib/kinds.js';
+import { sanitizeImportedProfile, toSharedProfile } from './lib/sharing.js';
+import { findSecretReferences } from './lib/secrets.js';
+import { RoleModels, ShellType } from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
 const PORT = 3000;
+// Only this machine: the API saves keys and profiles without asking
+const HOST = '127.0.0.1';
 
 app.use(express.json());
 
@@ -18,6 +23,25 @@ app.use(express.json());
 const webDistPath = path.join(__dirname, '..', 'web', 'dist');
 app.use(express.static(webDistPath));
 
+// Keep only known roles with a model set
+function cleanRoleModels(input: unknown): RoleModels | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+  const roleModels: RoleModels = {};
+  for (const role of MODEL_ROLES) {
+    const value = (input as Record<string, unknown>)[role];
+    if (typeof value === 'string' && value.trim()) roleModels[role] = value.trim();
+  }
+  return Object.keys(roleModels).length > 0 ? roleModels : undefined;
+}
+
+// Same rule as import: a request must not get ccx to read files or run commands (file:, cmd:, ...)
+function secretReferenceError(apiKey: unknown): string | undefined {
+  const references = typeof apiKey === 'string' ? findSecretReferences({ apiKey }) : [];
+  return references.length > 0
+    ? `Profiles from the web UI cannot contain secret references (${references.join(', ')}). Use ccx create or ccx edit.`
+    : undefined;
+}
+
 app.get('/api/status', (req: Request, res: Response) => {
   const profiles = config.getProfiles();
   const activeProfile = config.getActiveProfile();
@@ -49,7 +73,7 @@ app.get('/api/profiles', (req: Request, res: Response) => {
 });
 
 app.get('/api/profiles/:name', (req: Request, res: Response) => {
-  const profile = config.getProfile(req.params.name);
+  const profile = config.getStoredProfile(req.params.name);
   if (!profile) {
     return res.status(404).json({ error: 'Profile not found' });
   }
@@ -60,10 +84,27 @@ app.get('/api/profiles/:name', (req: Request, res: Response) => {
 });
 
 app.post('/api/profiles', (req: Request, res: Response) => {
-  const { name, description, provider, baseUrl, model, apiKey, clearAnthropicKey } = req.body;
+  const {
+    name, description, provider, kind, baseUrl, model, apiKey, clearAnthropicKey, region, awsProfile, projectId,
+    roleModels
+  } = req.body;
   
-  if (!name || !baseUrl) {
-    return res.status(400).json({ error: 'Name and baseUrl are required' });
+  if (!name) {
+    return res.status(400).json({ error: 'Name is required' });
+  }
+
+  const referenceError = secretReferenceError(apiKey);
+  if (referenceError) {
+    return res.status(400).json({ error: referenceError });
+  }
+
+  const fieldErrors = validateProfileFields({ kind, baseUrl, region, projectId });
+  if (fieldErrors.length > 0) {
+    return res.status(400).json({ error: fieldErrors.join('; ') });
+  }
+
+  if ((baseUrl && findPlaceholders(baseUrl).length > 0) || (model && findPlaceholders(model).length > 0)) {
+    return res.status(400).json({ error: 'Fill in the template parameters ({{...}}) first' });
   }
   
   if (config.profileExists(name)) {
@@ -74,8 +115,13 @@ app.post('/api/profiles', (req: Request, res: Response) => {
     name,
     description: description || '',
     provider: provider || 'custom',
-    baseUrl,
+    kind: kind && kind !== 'anthropic' ? kind : undefined,
+    baseUrl: baseUrl || '',
     model: model || undefined,
+    region: region || undefined,
+    awsProfile: awsProfile || undefined,
+    projectId: projectId || undefined,
+    roleModels: cleanRoleModels(roleModels),
     apiKey: apiKey || undefined,
     clearAnthropicKey: clearAnthropicKey ?? true,
     createdAt: new Date().toISOString(),
@@ -87,19 +133,45 @@ app.post('/api/profiles', (req: Request, res: Response) => {
 });
 
 app.put('/api/profiles/:name', (req: Request, res: Response) => {
-  const profile = config.getProfile(req.params.name);
+  const profile = config.getStoredProfile(req.params.name);
   
   if (!profile) {
     return res.status(404).json({ error: 'Profile not found' });
   }
   
-  const { baseUrl, model, apiKey, description, clearAnthropicKey } = req.body;
+  const {
+    kind, baseUrl, model, apiKey, description, clearAnthropicKey, region, awsProfile, projectId, roleModels
+  } = req.body;
+
+  const referenceError = secretReferenceError(apiKey);
+  if (referenceError) {
+    return res.status(400).json({ error: referenceError });
+  }
+
+  if ((baseUrl && findPlaceholders(baseUrl).length > 0) || (model && findPlaceholders(model).length > 0)) {
+    return res.status(400).json({ error: 'Fill in the template parameters ({{...}}) first' });
+  }
   
+  if (kind !== undefined) {
+    if (!isProfileKind(kind)) {
+      return res.status(400).json({ error: validateProfileFields({ kind }).join('; ') });
+    }
+    changeProfileKind(profile, kind);
+  }
   if (baseUrl !== undefined) profile.baseUrl = baseUrl;
   if (model !== undefined) profile.model = model;
   if (apiKey !== undefined) profile.apiKey = apiKey;
   if (description !== undefined) profile.description = description;
   if (clearAnthropicKey !== undefined) profile.clearAnthropicKey = clearAnthropicKey;
+  if (region !== undefined) profile.region = region || undefined;
+  if (awsProfile !== undefined) profile.awsProfile = awsProfile || undefined;
+  if (projectId !== undefined) profile.projectId = projectId || undefined;
+  if (roleModels !== undefined) profile.roleModels = cleanRoleModels(roleModels);
+  
+  const fieldErrors = validateProfileFields(profile);
+  if (fieldErrors.length > 0) {
+    return res.status(400).json({ error: fieldErrors.join('; ') });
+  }
   
   config.saveProfile(profile);
   res.json({ success: true, profile: { ...profile, apiKey: profile.apiKey ? '********' : undefined } });
@@ -119,14 +191,18 @@ app.get('/api/templates', (req: Request, res: Response) => {
 });
 
 app.post('/api/profiles/:name/activate', (req: Request, res: Response) => {
-  const profile = config.getProfile(req.params.name);
   const shell = (req.query.shell as ShellType) || 'bash';
   
-  if (!profile) {
-    return res.status(404).json({ error: 'Profile not found' });
+  let script: string;
+  try {
+    const profile = config.getProfile(req.params.name);
+    if (!profile) {
+      return res.status(404).json({ error: 'Profile not found' });
+    }
+    script = generateShellScript(profile, shell);
+  } catch (e) {
+    return res.status(400).json({ error: (e as Error).message });
   }
-  
-  const script = generateShellScript(profile, shell);
   config.setActiveProfile(req.params.name);
   
   res.json({ script, shell });
@@ -134,21 +210,22 @@ app.post('/api/profiles/:name/activate', (req: Request, res: Response) => {
 
 app.post('/api/reset', (req: Request, res: Response) => {
   const shell = (req.query.shell as ShellType) || 'bash';
-  const script = generateResetScript(shell);
+  const active = config.getActiveProfile();
+  const activeProfile = active ? config.getProfiles()[active] : undefined;
+  const script = generateResetScript(shell, activeProfile ? getProfileKind(activeProfile) : 'anthropic');
   config.setActiveProfile(null);
   
   res.json({ script, shell });
 });
 
 app.get('/api/profiles/:name/export', (req: Request, res: Response) => {
-  const profile = config.getProfile(req.params.name);
+  const profile = config.getStoredProfile(req.params.name);
   
   if (!profile) {
     return res.status(404).json({ error: 'Profile not found' });
   }
   
-  const exported = { ...profile, apiKey: undefined };
-  res.json(exported);
+  res.json(toSharedProfile(profile));
 });
 
 app.post('/api/profiles/import', (req: Request, res: Response) => {
@@ -167,11 +244,17 @@ app.post('/api/profiles/import', (req: Request, res: Response) => {
       return res.status(409).json({ error: 'Profile already exists' });
     }
     
+    // Same rules as `ccx import`: no executable path, secret references or malformed claudeArgs
+    const { errors, ignored } = sanitizeImportedProfile(imported);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; ') });
+    }
+    
     imported.createdAt = new Date().toISOString();
     imported.updatedAt = new Date().toISOString();
     
     config.saveProfile(imported);
-    res.json({ success: true, profile: { ...imported, apiKey: imported.apiKey ? '********' : undefined } });
+    res.json({ success: true, profile: { ...imported, apiKey: imported.apiKey ? '********' : undefined }, ignored });
   } catch (e) {
     res.status(400).json({ error: 'Invalid JSON' });
   }
@@ -185,6 +268,16 @@ app.use((req: Request, res: Response) => {
   res.sendFile(path.join(webDistPath, 'index.html'));
 });
 
-app.listen(PORT, () => {
-  console.log(`\n  🚀 ccenv web UI running at http://localhost:${PORT}\n`);
+// The CLI upgrades the store before each command; the server does it once, before serving it
+try {
+  for (const step of config.migrateStore()) {
+    console.log(`Upgraded the ccx config to schema v${step.version} (backup: ${step.backup})`);
+  }
+} catch (e) {
+  console.error((e as Error).message);
+  process.exit(1);
+}
+
+app.listen(PORT, HOST, () => {
+  console.log(`\n  🚀 ccenv web UI running at http://${HOST}:${PORT}\n`);
 });
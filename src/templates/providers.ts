@@ -1,8 +1,25 @@
 // Pre-built provider templates for quick setup
 
-import { ProviderTemplate } from '../types.js';
+import { ProviderTemplate, TemplateParam } from '../types.js';
+import { getUserTemplates } from '../lib/config.js';
+
+const HOST_PATTERN = '[a-zA-Z0-9.-]+';
+// 1-65535
+const PORT_PATTERN = '[1-9][0-9]{0,3}|[1-5][0-9]{4}|6[0-4][0-9]{3}|65[0-4][0-9]{2}|655[0-2][0-9]|6553[0-5]';
+
+// Matches {{name}} placeholders in template fields
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
 
 export const providerTemplates: ProviderTemplate[] = [
+  {
+    name: 'official',
+    displayName: 'Anthropic (Official)',
+    description: 'Official Anthropic API',
+    baseUrl: 'https://api.anthropic.com',
+    requiresApiKey: false,
+    clearAnthropicKey: false,
+    setupInstructions: 'Uses your Claude login or existing ANTHROPIC_API_KEY. Keys: https://console.anthropic.com/settings/keys'
+  },
   {
     name: 'openrouter',
     displayName: 'OpenRouter (GLM-4.7)',
@@ -22,13 +39,213 @@ export const providerTemplates: ProviderTemplate[] = [
     requiresApiKey: true,
     clearAnthropicKey: true,
     setupInstructions: 'Get your API key at https://openrouter.ai/keys'
+  },
+  {
+    name: 'openrouter-deepseek',
+    displayName: 'OpenRouter (DeepSeek V3)',
+    description: 'OpenRouter with DeepSeek V3 model',
+    baseUrl: 'https://openrouter.ai/api',
+    defaultModel: 'deepseek/deepseek-chat-v3-0324',
+    requiresApiKey: true,
+    clearAnthropicKey: true,
+    setupInstructions: 'Get your API key at https://openrouter.ai/keys'
+  },
+  {
+    name: 'deepseek',
+    displayName: 'DeepSeek',
+    description: 'DeepSeek direct API (Anthropic-compatible endpoint)',
+    baseUrl: 'https://api.deepseek.com/anthropic',
+    defaultModel: 'deepseek-chat',
+    requiresApiKey: true,
+    clearAnthropicKey: true,
+    setupInstructions: 'Get your API key at https://platform.deepseek.com/api_keys'
+  },
+  {
+    name: 'gemini',
+    displayName: 'Google Gemini (via LiteLLM)',
+    description: 'Google Gemini through a local LiteLLM proxy',
+    baseUrl: 'http://localhost:4000',
+    defaultModel: 'gemini/gemini-2.5-flash',
+    requiresApiKey: false,
+    clearAnthropicKey: true,
+    setupInstructions: 'Gemini has no Anthropic-compatible API. Run: GEMINI_API_KEY=... litellm --model gemini/gemini-2.5-flash (keys: https://aistudio.google.com/apikey)'
+  },
+  {
+    name: 'ollama',
+    displayName: 'Ollama (Local)',
+    description: 'Local models served by Ollama',
+    baseUrl: 'http://{{host}}:{{port}}',
+    defaultModel: 'qwen2.5-coder:latest',
+    requiresApiKey: false,
+    clearAnthropicKey: true,
+    setupInstructions: 'Requires Ollama v0.14+ running locally. Pull the model first: ollama pull qwen2.5-coder',
+    params: [
+      { name: 'host', description: 'Ollama host', default: 'localhost', pattern: HOST_PATTERN },
+      { name: 'port', description: 'Ollama port', default: '11434', pattern: PORT_PATTERN }
+    ]
+  },
+  {
+    name: 'lmstudio',
+    displayName: 'LM Studio (Local)',
+    description: 'Local models served by LM Studio',
+    baseUrl: 'http://{{host}}:{{port}}',
+    defaultModel: 'local-model',
+    requiresApiKey: false,
+    clearAnthropicKey: true,
+    setupInstructions: 'Start the LM Studio server (Developer tab) and load a model. Set the model to its identifier.',
+    params: [
+      { name: 'host', description: 'LM Studio host', default: 'localhost', pattern: HOST_PATTERN },
+      { name: 'port', description: 'LM Studio port', default: '1234', pattern: PORT_PATTERN }
+    ]
+  },
+  {
+    name: 'groq',
+    displayName: 'Groq (via LiteLLM)',
+    description: 'Groq fast inference through a local LiteLLM proxy',
+    baseUrl: 'http://localhost:4000',
+    defaultModel: 'groq/llama-3.3-70b-versatile',
+    requiresApiKey: false,
+    clearAnthropicKey: true,
+    setupInstructions: 'Groq has no Anthropic-compatible API. Run: GROQ_API_KEY=... litellm --model groq/llama-3.3-70b-versatile (keys: https://console.groq.com/keys)'
+  },
+  {
+    name: 'together',
+    displayName: 'Together AI (via LiteLLM)',
+    description: 'Together AI through a local LiteLLM proxy',
+    baseUrl: 'http://localhost:4000',
+    defaultModel: 'together_ai/meta-llama/Meta-Llama-3.1-70B-Instruct-Turbo',
+    requiresApiKey: false,
+    clearAnthropicKey: true,
+    setupInstructions: 'Together AI has no Anthropic-compatible API. Run: TOGETHERAI_API_KEY=... litellm --model together_ai/meta-llama/Meta-Llama-3.1-70B-Instruct-Turbo'
+  },
+  {
+    name: 'bedrock',
+    displayName: 'Amazon Bedrock',
+    description: 'Claude on Amazon Bedrock',
+    kind: 'bedrock',
+    baseUrl: '',
+    defaultModel: 'us.anthropic.claude-sonnet-4-20250514-v1:0',
+    defaultRegion: 'us-east-1',
+    requiresApiKey: false,
+    clearAnthropicKey: true,
+    setupInstructions: 'Uses your AWS credentials (aws configure / aws sso login, or a Bedrock API key). Enable Claude model access in the Bedrock console.'
+  },
+  {
+    name: 'vertex',
+    displayName: 'Google Vertex AI',
+    description: 'Claude on Google Cloud Vertex AI',
+    kind: 'vertex',
+    baseUrl: '',
+    defaultModel: 'claude-sonnet-4@20250514',
+    defaultRegion: 'us-east5',
+    requiresApiKey: false,
+    clearAnthropicKey: true,
+    setupInstructions: 'Run: gcloud auth application-default login. Enable Claude models in Vertex AI Model Garden and pass --project-id.'
+  },
+  {
+    name: 'custom',
+    displayName: 'Custom',
+    description: 'Any Anthropic-compatible endpoint',
+    baseUrl: '',
+    requiresApiKey: false,
+    clearAnthropicKey: true,
+    setupInstructions: 'Provide the base URL of an endpoint that speaks the Anthropic Messages API'
   }
 ];
 
+export function isBuiltInTemplate(name: string): boolean {
+  return providerTemplates.some(t => t.name === name);
+}
+
 export function getTemplate(name: string): ProviderTemplate | undefined {
-  return providerTemplates.find(t => t.name === name);
+  return providerTemplates.find(t => t.name === name) || getUserTemplates()[name];
 }
 
+// Built-in templates first, then user-defined ones from the config store
 export function listTemplates(): ProviderTemplate[] {
-  return providerTemplates;
+  const userTemplates = Object.values(getUserTemplates())
+    .filter(t => !isBuiltInTemplate(t.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return [...providerTemplates, ...userTemplates];
+}
+
+export function findPlaceholders(value: string): string[] {
+  return Array.from(value.matchAll(PLACEHOLDER_PATTERN), m => m[1]);
+}
+
+export function renderTemplateString(value: string, values: Record<string, string>): string {
+  return value.replace(PLACEHOLDER_PATTERN, (match, key: string) => values[key] ?? match);
+}
+
+// Returns an error message for a bad param value, or null if it is valid
+export function checkParamValue(param: TemplateParam, value: string): string | null {
+  if (!value) {
+    return `Parameter "${param.name}" is required`;
+  }
+  if (param.pattern && !new RegExp(`^(?:${param.pattern})$`).test(value)) {
+    return `Parameter "${param.name}" must match /${param.pattern}/ (got "${value}")`;
+  }
+  return null;
+}
+
+export function validateTemplateParams(template: ProviderTemplate, values: Record<string, string>): string[] {
+  const errors: string[] = [];
+  const params = template.params || [];
+  const declared = new Set(params.map(p => p.name));
+
+  for (const key of Object.keys(values)) {
+    if (!declared.has(key)) {
+      errors.push(`Template "${template.name}" has no parameter "${key}"`);
+    }
+  }
+
+  for (const param of params) {
+    const error = checkParamValue(param, values[param.name] ?? param.default ?? '');
+    if (error) errors.push(error);
+  }
+
+  const fields = [template.baseUrl, template.defaultModel || '', ...Object.values(template.extraEnv || {})];
+  for (const key of new Set(fields.flatMap(findPlaceholders))) {
+    if (!declared.has(key)) {
+      errors.push(`Template "${template.name}" references undeclared parameter "${key}"`);
+    }
+  }
+
+  return errors;
+}
+
+// Substitute param values (falling back to defaults) into a copy of the template
+export function applyTemplateParams(template: ProviderTemplate, values: Record<string, string>): ProviderTemplate {
+  const resolved: Record<string, string> = {};
+  for (const param of template.params || []) {
+    const value = values[param.name] ?? param.default;
+    if (value !== undefined) resolved[param.name] = value;
+  }
+
+  let extraEnv: Record<string, string> | undefined;
+  if (template.extraEnv) {
+    extraEnv = {};
+    for (const [key, value] of Object.entries(template.extraEnv)) {
+      extraEnv[key] = renderTemplateString(value, resolved);
+    }
+  }
+
+  return {
+    ...template,
+    baseUrl: renderTemplateString(template.baseUrl, resolved),
+    defaultModel: template.defaultModel && renderTemplateString(template.defaultModel, resolved),
+    extraEnv
+  };
+}
+
+export function parseParamArgs(args: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const arg of args) {
+    const eq = arg.indexOf('=');
+    if (eq <= 0) {
+      throw new Error(`Invalid parameter "${arg}". Expected name=value.`);
+    }
+    values[arg.slice(0, eq)] = arg.slice(eq + 1);
+  }
+  return values;
 }
@@ -1,36 +1,78 @@
 // Type definitions for Claude Env
 
+export type ModelRole = 'smallFast' | 'opus' | 'sonnet' | 'haiku';
+
+export type RoleModels = Partial<Record<ModelRole, string>>;
+
+// How Claude Code reaches the model: an Anthropic-compatible endpoint, Bedrock or Vertex
+export type ProfileKind = 'anthropic' | 'bedrock' | 'vertex';
+
 export interface Profile {
   name: string;
   description?: string;
   provider: string;
-  baseUrl: string;
+  kind?: ProfileKind;  // Defaults to 'anthropic'
+  baseUrl: string;  // Optional gateway URL for bedrock/vertex
   model?: string;
+  region?: string;  // AWS_REGION (bedrock) or CLOUD_ML_REGION (vertex)
+  awsProfile?: string;  // AWS_PROFILE (bedrock)
+  projectId?: string;  // ANTHROPIC_VERTEX_PROJECT_ID (vertex)
   apiKey?: string;  // Stored encrypted in config, decrypted at runtime
   clearAnthropicKey: boolean;  // Whether to unset ANTHROPIC_API_KEY
+  roleModels?: RoleModels;  // Models for Claude Code's opus/sonnet/haiku/background roles
   extraEnv?: Record<string, string>;  // Additional env vars
+  claudeArgs?: string[];  // Passed to claude by `ccx run`, before any forwarded args
+  claudePath?: string;  // Claude Code executable for `ccx run`; overrides the global setting
   createdAt: string;
   updatedAt: string;
 }
 
 export interface ProfileConfig {
+  schemaVersion?: number;  // Missing in stores written before versioning (version 0); see migrations.ts
   profiles: Record<string, Profile>;
+  templates: Record<string, ProviderTemplate>;  // User-defined templates
   activeProfile: string | null;
-  settings: {
-    encryptionEnabled: boolean;
-    defaultShell: 'bash' | 'zsh' | 'fish' | 'powershell' | 'cmd';
-  };
+  settings: Settings;
+  trustedProjects?: Record<string, string>;  // Project files allowed with `ccx allow`: real path -> SHA-256 of the content
+}
+
+export interface Settings {
+  encryptionEnabled: boolean;  // Host-key encryption of API keys; a master passphrase always encrypts
+  defaultShell?: ShellType;  // Used when --shell isn't given; detected from the environment when unset
+  claudePath?: string;  // Claude Code executable for `ccx run` when claude isn't on PATH
+  passphrase?: PassphraseSettings;  // Set when API keys are encrypted with a master passphrase
+}
+
+// scrypt parameters for the master passphrase; the key itself is never stored
+export interface PassphraseSettings {
+  kdf: 'scrypt';
+  salt: string;  // hex
+  N: number;
+  r: number;
+  p: number;
+  verifier: string;  // A known value sealed with the key, to check a passphrase
+}
+
+export interface TemplateParam {
+  name: string;
+  description?: string;
+  default?: string;  // Params without a default are required
+  pattern?: string;  // Regex the value must fully match
 }
 
 export interface ProviderTemplate {
   name: string;
   displayName: string;
   description: string;
-  baseUrl: string;
+  kind?: ProfileKind;
+  baseUrl: string;  // May contain {{param}} placeholders
   defaultModel?: string;
+  defaultRegion?: string;
   requiresApiKey: boolean;
   clearAnthropicKey: boolean;
   setupInstructions?: string;
+  params?: TemplateParam[];
+  extraEnv?: Record<string, string>;
 }
 
 export interface EnvVars {
@@ -41,4 +83,7 @@ export interface EnvVars {
   [key: string]: string | undefined;
 }
 
-export type ShellType = 'bash' | 'zsh' | 'fish' | 'powershell' | 'cmd';
+export type ShellType =
+  | 'bash' | 'zsh' | 'fish' | 'powershell' | 'cmd' | 'nushell' | 'elvish' | 'xonsh' | 'tcsh' | 'csh';
+
+export type EnvFormat = 'dotenv' | 'docker' | 'json' | 'systemd' | 'k8s-secret';
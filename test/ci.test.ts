@@ -0,0 +1,122 @@
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { test, describe, before, after } from 'node:test';
+import { deriveHostKey, encrypt } from '../src/lib/encryption.js';
+import { makeHome, runCli, savedProfile } from './helpers.js';
+
+// Encrypted on a machine with another hostname, like a store copied to a runner
+const foreignKey = encrypt('sk-stored', deriveHostKey('dev-laptop', 'dev'));
+
+const profile = savedProfile('work', { baseUrl: 'https://example.com', model: 'glm-4.7', apiKey: foreignKey });
+
+describe('ccx ci', () => {
+  let home: string;
+
+  before(() => {
+    home = makeHome('ccx-ci-', {
+      schemaVersion: 2,
+      profiles: {
+        work: profile,
+        proxied: savedProfile('proxied', { baseUrl: 'https://example.com', extraEnv: { PROXY_TOKEN: 'env:CI_PROXY_TOKEN', REGION: 'eu' } })
+      },
+      settings: { encryptionEnabled: true }
+    });
+  });
+
+  after(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  // Runs in the temp home with no CI variables from the outer environment
+  function ccx(args: string[], env: NodeJS.ProcessEnv = {}) {
+    return runCli(home, args, { env: { GITHUB_ENV: undefined, GITHUB_ACTIONS: undefined, GITLAB_CI: undefined, ...env } });
+  }
+
+  test('uses the CI secret without opening a stored key it cannot decrypt', () => {
+    const githubEnv = path.join(home, 'github-env-foreign');
+    const result = ccx(['ci', 'work'], { GITHUB_ENV: githubEnv, CCX_API_KEY: 'sk-ci' });
+    assert.strictEqual(result.status, 0, result.stderr);
+    const content = fs.readFileSync(githubEnv, 'utf8');
+    assert.match(content, /^ANTHROPIC_AUTH_TOKEN<<(ghadelimiter_[\w-]+)\nsk-ci\n\1$/m);
+    assert.doesNotMatch(content, /sk-stored/);
+  });
+
+  test('appends heredoc entries to $GITHUB_ENV and masks every line of the secret', () => {
+    const githubEnv = path.join(home, 'github-env');
+    const result = ccx(['ci', 'work'], { GITHUB_ENV: githubEnv, CCX_API_KEY: 'sk-line1\nsk-line2' });
+    assert.strictEqual(result.status, 0, result.stderr);
+
+    // Masks come before anything else is printed
+    const lines = result.stdout.split('\n');
+    assert.deepStrictEqual(lines.slice(0, 2), ['::add-mask::sk-line1', '::add-mask::sk-line2']);
+
+    const content = fs.readFileSync(githubEnv, 'utf8');
+    assert.match(content, /^ANTHROPIC_AUTH_TOKEN<<(ghadelimiter_[\w-]+)\nsk-line1\nsk-line2\n\1$/m);
+    assert.match(content, /^ANTHROPIC_BASE_URL<<(ghadelimiter_[\w-]+)\nhttps:\/\/example\.com\n\1$/m);
+    assert.match(content, /^CCX_ACTIVE_PROFILE<<(ghadelimiter_[\w-]+)\nwork\n\1$/m);
+    // Cleared variables are set to empty, since GITHUB_ENV can't unset
+    assert.match(content, /^ANTHROPIC_API_KEY<<(ghadelimiter_[\w-]+)\n\n\1$/m);
+  });
+
+  test('writes ccx.env on GitLab, leaving the key out unless asked', () => {
+    const dotenv = path.join(home, 'ccx.env');
+
+    const result = ccx(['ci', 'work'], { GITLAB_CI: 'true', CCX_API_KEY: 'sk-ci' });
+    assert.strictEqual(result.status, 0, result.stderr);
+    const content = fs.readFileSync(dotenv, 'utf8');
+    assert.match(content, /^ANTHROPIC_BASE_URL=https:\/\/example\.com$/m);
+    assert.match(content, /^ANTHROPIC_MODEL=glm-4\.7$/m);
+    assert.doesNotMatch(content, /sk-ci/);
+    assert.match(result.stdout, /Omitted ANTHROPIC_AUTH_TOKEN/);
+
+    assert.strictEqual(ccx(['ci', 'work', '--include-secrets'], { GITLAB_CI: 'true', CCX_API_KEY: 'sk-ci' }).status, 0);
+    assert.match(fs.readFileSync(dotenv, 'utf8'), /^ANTHROPIC_AUTH_TOKEN=sk-ci$/m);
+  });
+
+  test('masks values resolved from secret references in extraEnv', () => {
+    const githubEnv = path.join(home, 'github-env-proxied');
+    const result = ccx(['ci', 'proxied'], { GITHUB_ENV: githubEnv, CCX_API_KEY: 'sk-ci', CI_PROXY_TOKEN: 'tok-proxy' });
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.deepStrictEqual(result.stdout.split('\n').slice(0, 2), ['::add-mask::sk-ci', '::add-mask::tok-proxy']);
+    assert.doesNotMatch(result.stdout, /::add-mask::eu/);
+    assert.match(fs.readFileSync(githubEnv, 'utf8'), /^PROXY_TOKEN<<(ghadelimiter_[\w-]+)\ntok-proxy\n\1$/m);
+  });
+
+  test('--dotenv masks secrets on GitHub and leaves resolved references out unless asked', () => {
+    const dotenv = path.join(home, 'proxied.env');
+    const env = { GITHUB_ACTIONS: 'true', CCX_API_KEY: 'sk-ci', CI_PROXY_TOKEN: 'tok-proxy' };
+
+    const result = ccx(['ci', 'proxied', '--dotenv', dotenv], env);
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.deepStrictEqual(result.stdout.split('\n').slice(0, 2), ['::add-mask::sk-ci', '::add-mask::tok-proxy']);
+    const content = fs.readFileSync(dotenv, 'utf8');
+    assert.doesNotMatch(content, /tok-proxy|sk-ci/);
+    assert.match(content, /^REGION=eu$/m);
+    assert.match(result.stdout, /Omitted ANTHROPIC_AUTH_TOKEN, PROXY_TOKEN/);
+
+    const included = ccx(['ci', 'proxied', '--dotenv', dotenv, '--include-secrets'], env);
+    assert.strictEqual(included.status, 0, included.stderr);
+    assert.match(included.stdout, /^::add-mask::tok-proxy$/m);
+    assert.match(fs.readFileSync(dotenv, 'utf8'), /^PROXY_TOKEN=tok-proxy$/m);
+  });
+
+  test('--api-key-env reads the secret from another variable and fails when it is unset', () => {
+    const dotenv = path.join(home, 'custom.env');
+    const args = ['ci', 'work', '--api-key-env', 'OPENROUTER_KEY', '--dotenv', dotenv, '--include-secrets'];
+
+    const result = ccx(args, { OPENROUTER_KEY: 'sk-custom', CCX_API_KEY: 'sk-default' });
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.match(fs.readFileSync(dotenv, 'utf8'), /^ANTHROPIC_AUTH_TOKEN=sk-custom$/m);
+
+    const missing = ccx(args, { CCX_API_KEY: 'sk-default' });
+    assert.strictEqual(missing.status, 1);
+    assert.match(missing.stderr, /OPENROUTER_KEY is not set/);
+  });
+
+  test('fails outside CI without --dotenv', () => {
+    const result = ccx(['ci', 'work'], { CCX_API_KEY: 'sk-ci' });
+    assert.strictEqual(result.status, 1);
+    assert.match(result.stderr, /No CI environment detected/);
+  });
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert';
+import { spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import { test, describe, before, after } from 'node:test';
+import { Command } from 'commander';
+import { hasShell, makeHome } from './helpers.js';
+
+let home: string;
+let generateCompletionScript: typeof import('../src/lib/completion.js').generateCompletionScript;
+
+before(async () => {
+  home = makeHome('ccx-completion-');
+  // The template list reads the config store, which is opened when the module loads
+  process.env.HOME = home;
+  process.env.XDG_CONFIG_HOME = home;
+  ({ generateCompletionScript } = await import('../src/lib/completion.js'));
+});
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+function buildProgram(): Command {
+  const program = new Command('ccx');
+  program.command('use [name]').option('-s, --shell <shell>', 'Shell type').option('--global', 'Global');
+  program.command('create <name>').option('-t, --template <template>', 'Template');
+  const template = program.command('template');
+  template.command('delete <name>').alias('rm');
+  return program;
+}
+
+// Runs the bash completion for the given command line (the cursor is on the last word)
+function completeBash(words: string[]): string[] {
+  const script = generateCompletionScript(buildProgram(), 'bash');
+  const quoted = words.map(word => `'${word}'`).join(' ');
+  const run = `${script}\nCOMP_WORDS=(${quoted}); COMP_CWORD=${words.length - 1}; _ccx; printf '%s\\n' "\${COMPREPLY[@]}"`;
+  // `ccx` isn't on PATH here, so dynamic values come back empty
+  const result = spawnSync('bash', ['--norc', '-c', run], { encoding: 'utf8' });
+  assert.strictEqual(result.status, 0, result.stderr);
+  return result.stdout.split('\n').filter(Boolean);
+}
+
+describe('generateCompletionScript', () => {
+  test('rejects shells without a completion system', () => {
+    assert.throws(() => generateCompletionScript(buildProgram(), 'tcsh'), /not supported for tcsh/);
+  });
+
+  test('bash completes commands, options and their values', { skip: !hasShell('bash') }, () => {
+    assert.deepStrictEqual(completeBash(['ccx', '']), ['use', 'create', 'template', 'help']);
+    assert.deepStrictEqual(completeBash(['ccx', 'use', '--']), ['--help', '--shell', '--global']);
+    assert.ok(completeBash(['ccx', 'use', '--shell', '']).includes('nushell'));
+    assert.deepStrictEqual(completeBash(['ccx', 'use', '-s', 'f']), ['fish']);
+    assert.ok(completeBash(['ccx', 'create', 'x', '-t', '']).includes('openrouter'));
+    assert.deepStrictEqual(completeBash(['ccx', 'template', '']), ['delete', 'rm', 'help']);
+  });
+
+  test('bash skips option values when finding the subcommand', { skip: !hasShell('bash') }, () => {
+    assert.deepStrictEqual(completeBash(['ccx', 'use', '--shell', 'bash', '--g']), ['--global']);
+  });
+});
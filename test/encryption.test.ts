@@ -0,0 +1,177 @@
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test, describe, before, after } from 'node:test';
+import {
+  createPassphraseSettings,
+  decrypt,
+  deriveHostKey,
+  deriveKey,
+  encrypt,
+  encryptWithKey,
+  decryptWithKey,
+  openSecret,
+  sealSecret,
+  verifyKey,
+  DecryptionError,
+  KeysLockedError
+} from '../src/lib/encryption.js';
+import { clearSession, writeSession } from '../src/lib/session.js';
+import { makeHome, runCli, savedProfile, storeDir } from './helpers.js';
+
+describe('master passphrase', () => {
+  const { settings, key } = createPassphraseSettings('correct horse');
+  let runtimeDir: string;
+  let previousRuntimeDir: string | undefined;
+
+  before(() => {
+    previousRuntimeDir = process.env.XDG_RUNTIME_DIR;
+    runtimeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ccx-runtime-'));
+    process.env.XDG_RUNTIME_DIR = runtimeDir;
+  });
+
+  after(() => {
+    if (previousRuntimeDir === undefined) delete process.env.XDG_RUNTIME_DIR;
+    else process.env.XDG_RUNTIME_DIR = previousRuntimeDir;
+    fs.rmSync(runtimeDir, { recursive: true, force: true });
+  });
+
+  test('derives the same key from the same passphrase and salt only', () => {
+    assert.ok(verifyKey(deriveKey('correct horse', settings), settings));
+    assert.ok(!verifyKey(deriveKey('wrong horse', settings), settings));
+    assert.ok(!verifyKey(createPassphraseSettings('correct horse').key, settings));
+  });
+
+  test('rejects ciphertext sealed with another key', () => {
+    const sealed = encryptWithKey('sk-secret', key);
+    assert.strictEqual(decryptWithKey(sealed, key), 'sk-secret');
+    assert.throws(() => decryptWithKey(sealed, deriveKey('wrong horse', settings)));
+  });
+
+  test('opens keys only while a session is unlocked', () => {
+    clearSession();
+    assert.throws(() => sealSecret('sk-secret', settings), KeysLockedError);
+
+    writeSession(key, settings, 1);
+    const sealed = sealSecret('sk-secret', settings);
+    assert.strictEqual(openSecret(sealed, settings), 'sk-secret');
+
+    clearSession();
+    assert.throws(() => openSecret(sealed, settings), KeysLockedError);
+  });
+
+  test('still opens host-key ciphertext and plaintext without a session', () => {
+    assert.strictEqual(openSecret(encrypt('sk-host'), settings), 'sk-host');
+    assert.strictEqual(openSecret('sk-plain', settings), 'sk-plain');
+    assert.strictEqual(decrypt(encrypt('sk-host')), 'sk-host');
+  });
+
+  test('ignores sessions that are not private or not for this passphrase', { skip: process.platform === 'win32' }, () => {
+    const dir = path.join(runtimeDir, 'ccx');
+    const file = path.join(dir, 'session.json');
+
+    writeSession(key, settings, 1);
+    fs.chmodSync(file, 0o644);
+    assert.throws(() => sealSecret('sk-secret', settings), KeysLockedError);
+
+    writeSession(key, settings, 1);
+    fs.chmodSync(dir, 0o755);
+    assert.throws(() => sealSecret('sk-secret', settings), KeysLockedError);
+    fs.chmodSync(dir, 0o700);
+
+    // A planted key that doesn't match the passphrase, even in a private file
+    writeSession(createPassphraseSettings('attacker').key, settings, 1);
+    assert.throws(() => sealSecret('sk-secret', settings), KeysLockedError);
+
+    const elsewhere = path.join(runtimeDir, 'planted.json');
+    writeSession(key, settings, 1);
+    fs.renameSync(file, elsewhere);
+    fs.symlinkSync(elsewhere, file);
+    assert.throws(() => sealSecret('sk-secret', settings), KeysLockedError);
+    clearSession();
+  });
+
+  test('keeps the session file private', { skip: process.platform === 'win32' }, () => {
+    writeSession(key, settings, 1);
+    const mode = fs.statSync(path.join(runtimeDir, 'ccx', 'session.json')).mode & 0o777;
+    assert.strictEqual(mode, 0o600);
+    clearSession();
+  });
+});
+
+describe('host key', () => {
+  const oldKey = deriveHostKey('old-laptop', os.userInfo().username);
+
+  test('fails loudly instead of returning the ciphertext', () => {
+    const sealed = encrypt('sk-host', oldKey);
+    assert.throws(() => decrypt(sealed), DecryptionError);
+    assert.throws(() => openSecret(sealed), /another machine, or before the hostname or username changed/);
+    assert.strictEqual(decrypt(sealed, oldKey), 'sk-host');
+  });
+
+  test('never mistakes garbage from a wrong key for a key', () => {
+    for (let i = 0; i < 200; i++) {
+      assert.throws(() => decrypt(encrypt(`sk-${i}`, oldKey)), DecryptionError);
+    }
+  });
+
+  test('passes unencrypted keys through', () => {
+    assert.strictEqual(decrypt('sk-or-v1-0123'), 'sk-or-v1-0123');
+  });
+});
+
+describe('ccx keys and encryptionEnabled', () => {
+  let home: string;
+
+  before(() => {
+    const oldKey = deriveHostKey('old-laptop', os.userInfo().username);
+    home = makeHome('ccx-keys-', {
+      profiles: {
+        moved: savedProfile('moved', { apiKey: encrypt('sk-moved', oldKey) }),
+        here: savedProfile('here', { apiKey: encrypt('sk-here') })
+      },
+      settings: { encryptionEnabled: true, defaultShell: 'bash' }
+    });
+  });
+
+  after(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  function ccx(args: string[]) {
+    return runCli(home, args);
+  }
+
+  test('verify reports keys from another machine identity and rekey recovers them', () => {
+    const use = ccx(['use', 'moved', '--shell', 'bash']);
+    assert.strictEqual(use.status, 1);
+    assert.match(use.stderr, /Cannot decrypt the API key of profile "moved"/);
+    assert.doesNotMatch(use.stdout, /ANTHROPIC_AUTH_TOKEN/);
+
+    const verify = ccx(['keys', 'verify']);
+    assert.strictEqual(verify.status, 1);
+    assert.match(verify.stdout, /ok {6}here/);
+    assert.match(verify.stdout, /FAILED {2}moved/);
+
+    assert.strictEqual(ccx(['keys', 'rekey', '--from-hostname', 'wrong-laptop']).status, 1);
+    const rekey = ccx(['keys', 'rekey', '--from-hostname', 'old-laptop']);
+    assert.strictEqual(rekey.status, 0);
+    assert.match(rekey.stdout, /Re-encrypted 1 API key\(s\).*: moved/);
+
+    assert.strictEqual(ccx(['keys', 'verify']).status, 0);
+    assert.match(ccx(['use', 'moved', '--shell', 'bash']).stdout, /ANTHROPIC_AUTH_TOKEN='sk-moved'/);
+  });
+
+  test('config set encryptionEnabled converts every stored key', () => {
+    const storeFile = () => fs.readFileSync(path.join(storeDir(home), 'config.json'), 'utf8');
+
+    assert.strictEqual(ccx(['config', 'set', 'encryptionEnabled', 'false']).status, 0);
+    assert.match(storeFile(), /"apiKey": "sk-moved"/);
+    assert.match(ccx(['use', 'here', '--shell', 'bash']).stdout, /ANTHROPIC_AUTH_TOKEN='sk-here'/);
+
+    assert.strictEqual(ccx(['config', 'set', 'encryptionEnabled', 'true']).status, 0);
+    assert.doesNotMatch(storeFile(), /sk-moved|sk-here/);
+    assert.match(ccx(['use', 'here', '--shell', 'bash']).stdout, /ANTHROPIC_AUTH_TOKEN='sk-here'/);
+  });
+});
@@ -0,0 +1,112 @@
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import { test, describe, before, after } from 'node:test';
+import { checkEnvKey } from '../src/lib/kinds.js';
+import { makeHome, readStore, runCli, savedProfile } from './helpers.js';
+
+let home: string;
+let env: typeof import('../src/commands/env.js');
+
+before(async () => {
+  home = makeHome('ccx-env-', {
+    schemaVersion: 2,
+    profiles: { work: savedProfile('work', { baseUrl: 'https://example.com', extraEnv: { KEEP: '1' } }) }
+  });
+  // The config store is opened when the module loads, so point it at the temp home first
+  process.env.HOME = home;
+  process.env.XDG_CONFIG_HOME = home;
+  env = await import('../src/commands/env.js');
+});
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+describe('checkEnvKey', () => {
+  test('accepts names every shell can set', () => {
+    for (const key of ['HTTPS_PROXY', '_private', 'x1']) {
+      assert.strictEqual(checkEnvKey(key), null, key);
+    }
+  });
+
+  test('rejects names a shell would misread', () => {
+    for (const key of ['1X', 'A-B', 'A B', 'X;rm', '']) {
+      assert.strictEqual(checkEnvKey(key), `Invalid environment variable name "${key}"`, key);
+    }
+  });
+
+  test('rejects variables ccx sets itself', () => {
+    for (const key of ['ANTHROPIC_API_KEY', 'ANTHROPIC_AUTH_TOKEN', 'AWS_REGION', 'ANTHROPIC_DEFAULT_OPUS_MODEL', 'CCX_ACTIVE_PROFILE']) {
+      assert.strictEqual(checkEnvKey(key), `${key} is managed by ccx. Use the profile's own options instead.`);
+    }
+  });
+});
+
+describe('parseEnvAssignments', () => {
+  test('splits at the first = and keeps empty values', () => {
+    assert.deepStrictEqual(env.parseEnvAssignments(['A=1', 'URL=https://x/?a=b', 'EMPTY=']), {
+      A: '1',
+      URL: 'https://x/?a=b',
+      EMPTY: ''
+    });
+  });
+
+  test('rejects assignments without a name and managed or invalid names', () => {
+    assert.throws(() => env.parseEnvAssignments(['A']), /Invalid assignment "A". Expected KEY=VALUE./);
+    assert.throws(() => env.parseEnvAssignments(['=1']), /Invalid assignment "=1"/);
+    assert.throws(() => env.parseEnvAssignments(['ANTHROPIC_MODEL=x']), /ANTHROPIC_MODEL is managed by ccx/);
+    assert.throws(() => env.parseEnvAssignments(['BAD-KEY=x']), /Invalid environment variable name "BAD-KEY"/);
+  });
+});
+
+describe('updateExtraEnv', () => {
+  test('applies sets, then unsets', () => {
+    assert.deepStrictEqual(env.updateExtraEnv({ A: '1', B: '2' }, { B: '3', C: '4' }, ['A']), { B: '3', C: '4' });
+  });
+
+  test('returns undefined once nothing is left', () => {
+    assert.strictEqual(env.updateExtraEnv({ A: '1' }, {}, ['A']), undefined);
+    assert.strictEqual(env.updateExtraEnv(undefined, {}, []), undefined);
+  });
+
+  test('does not modify the current record', () => {
+    const current = { A: '1' };
+    env.updateExtraEnv(current, { B: '2' }, ['A']);
+    assert.deepStrictEqual(current, { A: '1' });
+  });
+});
+
+describe('ccx env', () => {
+  test('set, list and unset extra variables', () => {
+    const set = runCli(home, ['env', 'work', 'set', 'HTTPS_PROXY=http://proxy:3128', 'NO_PROXY=localhost']);
+    assert.strictEqual(set.status, 0, set.stderr);
+    assert.deepStrictEqual(readStore(home).profiles.work.extraEnv, {
+      KEEP: '1',
+      HTTPS_PROXY: 'http://proxy:3128',
+      NO_PROXY: 'localhost'
+    });
+
+    assert.strictEqual(runCli(home, ['env', 'work']).stdout, 'HTTPS_PROXY=http://proxy:3128\nKEEP=1\nNO_PROXY=localhost\n');
+
+    assert.strictEqual(runCli(home, ['env', 'work', 'unset', 'HTTPS_PROXY', 'NO_PROXY']).status, 0);
+    assert.deepStrictEqual(readStore(home).profiles.work.extraEnv, { KEEP: '1' });
+  });
+
+  test('set rejects a managed variable and saves nothing', () => {
+    const result = runCli(home, ['env', 'work', 'set', 'OK=1', 'ANTHROPIC_BASE_URL=https://evil.example']);
+    assert.strictEqual(result.status, 1);
+    assert.match(result.stderr, /ANTHROPIC_BASE_URL is managed by ccx/);
+    assert.deepStrictEqual(readStore(home).profiles.work.extraEnv, { KEEP: '1' });
+  });
+
+  test('unset fails for a variable that is not set', () => {
+    const result = runCli(home, ['env', 'work', 'unset', 'MISSING']);
+    assert.strictEqual(result.status, 1);
+    assert.match(result.stderr, /Not set on profile "work": MISSING/);
+  });
+
+  test('an unknown action or profile is an error', () => {
+    assert.match(runCli(home, ['env', 'work', 'add', 'A=1']).stderr, /Unknown action "add"/);
+    assert.match(runCli(home, ['env', 'nope', 'set', 'A=1']).stderr, /Profile "nope" not found/);
+  });
+});
@@ -0,0 +1,62 @@
+import assert from 'node:assert';
+import { test, describe } from 'node:test';
+import { formatEnvFile, getExportEnv } from '../src/lib/envfile.js';
+import { Profile } from '../src/types.js';
+
+const profile: Profile = {
+  name: 'Work Profile',
+  description: '',
+  provider: 'custom',
+  baseUrl: 'https://example.com',
+  model: 'm',
+  apiKey: 'sk-secret',
+  clearAnthropicKey: true,
+  extraEnv: { NOTE: "it's $HOME" },
+  createdAt: '',
+  updatedAt: ''
+};
+
+describe('getExportEnv', () => {
+  test('leaves out the API key unless secrets are requested', () => {
+    const withoutSecrets = getExportEnv(profile, false);
+    assert.strictEqual(withoutSecrets.env.ANTHROPIC_AUTH_TOKEN, undefined);
+    assert.deepStrictEqual(withoutSecrets.omitted, ['ANTHROPIC_AUTH_TOKEN']);
+
+    const withSecrets = getExportEnv(profile, true);
+    assert.strictEqual(withSecrets.env.ANTHROPIC_AUTH_TOKEN, 'sk-secret');
+    assert.deepStrictEqual(withSecrets.omitted, []);
+  });
+
+  test('drops variables that would only be unset', () => {
+    const { env } = getExportEnv(profile, true);
+    assert.ok(!('ANTHROPIC_API_KEY' in env));
+    assert.strictEqual(env.CCX_ACTIVE_PROFILE, 'Work Profile');
+  });
+});
+
+describe('formatEnvFile', () => {
+  test('dotenv single-quotes literal values and double-quotes the rest', () => {
+    const output = formatEnvFile({ A: 'x $y', B: "it's", C: 'a\nb' }, 'dotenv', 'p');
+    assert.deepStrictEqual(output.split('\n'), ["A='x $y'", 'B="it\'s"', 'C="a\\nb"']);
+  });
+
+  test('docker writes values verbatim and rejects line breaks', () => {
+    assert.strictEqual(formatEnvFile({ A: '"quoted" $x' }, 'docker', 'p'), 'A="quoted" $x');
+    assert.throws(() => formatEnvFile({ A: 'a\nb' }, 'docker', 'p'), /A: docker files cannot hold values with line breaks/);
+  });
+
+  test('systemd escapes quotes and backslashes', () => {
+    assert.strictEqual(formatEnvFile({ A: 'a"b\\c' }, 'systemd', 'p'), 'A="a\\"b\\\\c"');
+  });
+
+  test('k8s-secret builds a Secret manifest with a DNS-safe name', () => {
+    const output = formatEnvFile({ A: 'x: y' }, 'k8s-secret', 'Work Profile');
+    assert.match(output, /^  name: ccx-work-profile$/m);
+    assert.match(output, /^stringData:\n  A: "x: y"$/m);
+  });
+
+  test('json round-trips', () => {
+    const env = { A: 'a\nb', B: '"' };
+    assert.deepStrictEqual(JSON.parse(formatEnvFile(env, 'json', 'p')), env);
+  });
+});
@@ -0,0 +1,122 @@
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test, describe, before, after } from 'node:test';
+import { buildChildEnv, resolveExecutable } from '../src/lib/exec.js';
+import { makeHome, readStore, runCli, savedProfile } from './helpers.js';
+
+const profile = savedProfile('work', {
+  description: '',
+  baseUrl: 'https://example.com',
+  model: 'glm-4.7',
+  claudeArgs: ['--permission-mode', 'plan']
+});
+
+describe('buildChildEnv', () => {
+  test('applies the profile on top of the current environment', () => {
+    const env = buildChildEnv(profile, { PATH: '/bin', ANTHROPIC_API_KEY: 'sk-ant', CCX_PREVIOUS_ENV: 'x' });
+    assert.strictEqual(env.PATH, '/bin');
+    assert.strictEqual(env.ANTHROPIC_BASE_URL, 'https://example.com');
+    assert.strictEqual(env.CCX_ACTIVE_PROFILE, 'work');
+    assert.ok(!('ANTHROPIC_API_KEY' in env));
+    assert.ok(!('CCX_PREVIOUS_ENV' in env));
+  });
+});
+
+describe('resolveExecutable', { skip: process.platform === 'win32' }, () => {
+  test('looks bare names up on PATH and takes paths as they are', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ccx-path-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'tool'), '#!/bin/sh\n', { mode: 0o755 });
+      fs.writeFileSync(path.join(dir, 'data'), '', { mode: 0o644 });
+      const env = { PATH: `/nonexistent${path.delimiter}${dir}` };
+
+      assert.strictEqual(resolveExecutable('tool', env), path.join(dir, 'tool'));
+      assert.strictEqual(resolveExecutable(path.join(dir, 'tool'), {}), path.join(dir, 'tool'));
+      assert.strictEqual(resolveExecutable('data', env), undefined);
+      assert.strictEqual(resolveExecutable('missing', env), undefined);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ccx exec', () => {
+  let home: string;
+
+  before(() => {
+    home = makeHome('ccx-exec-', { profiles: { work: profile } });
+  });
+
+  after(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  function ccx(args: string[], input?: string, env: NodeJS.ProcessEnv = {}) {
+    return runCli(home, args, { input, env });
+  }
+
+  test('runs the command with the profile and exits with its code', { skip: process.platform === 'win32' }, () => {
+    const result = ccx(['exec', 'work', '--', 'sh', '-c', 'echo "$ANTHROPIC_MODEL"; cat; exit 7'], 'from stdin\n');
+    assert.strictEqual(result.stdout, 'glm-4.7\nfrom stdin\n');
+    assert.strictEqual(result.status, 7);
+  });
+
+  test('passes options after the profile to the command without --', { skip: process.platform === 'win32' }, () => {
+    const result = ccx(['exec', 'work', 'sh', '-c', 'echo "$ANTHROPIC_BASE_URL $0"', '--version']);
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.strictEqual(result.stdout, 'https://example.com --version\n');
+
+    const empty = ccx(['exec', 'work', '--']);
+    assert.strictEqual(empty.status, 1);
+    assert.match(empty.stderr, /No command given/);
+  });
+
+  test('exits with the signal that ended the command', { skip: process.platform === 'win32' }, () => {
+    const result = ccx(['exec', 'work', '--', 'sh', '-c', 'kill -TERM $$']);
+    assert.strictEqual(result.signal, 'SIGTERM');
+  });
+
+  test('reports a missing command with status 127', () => {
+    const result = ccx(['exec', 'work', '--', 'ccx-test-no-such-command']);
+    assert.strictEqual(result.status, 127);
+    assert.match(result.stderr, /Command not found: ccx-test-no-such-command/);
+  });
+
+  test('ccx run passes the profile args, then the forwarded args, to claude', { skip: process.platform === 'win32' }, () => {
+    const fakeClaude = path.join(home, 'claude');
+    fs.writeFileSync(fakeClaude, '#!/bin/sh\nprintf "<%s>" "$@"\n', { mode: 0o755 });
+    const env = { CCX_CLAUDE_PATH: fakeClaude };
+
+    assert.match(ccx(['run', 'work', '-p', 'fix tests'], undefined, env).stdout, /<--permission-mode><plan><-p><fix tests>$/);
+    assert.match(ccx(['run', 'work', '--', '--resume'], undefined, env).stdout, /<--permission-mode><plan><--resume>$/);
+    assert.match(ccx(['run', '-p', 'work', '--', '-c'], undefined, env).stdout, /<--permission-mode><plan><-c>$/);
+  });
+
+  test('ccx run explains how to install claude when it is missing', () => {
+    const result = ccx(['run', 'work'], undefined, { PATH: path.join(home, 'empty') });
+    assert.strictEqual(result.status, 127);
+    assert.match(result.stderr, /npm install -g @anthropic-ai\/claude-code/);
+    assert.match(result.stderr, /ccx edit work --claude-path PATH/);
+  });
+
+  test('ccx run saves a one-off profile only when asked and only after success', { skip: process.platform === 'win32' }, () => {
+    const fakeClaude = path.join(home, 'claude-env');
+    fs.writeFileSync(fakeClaude, '#!/bin/sh\necho "$CCX_ACTIVE_PROFILE $ANTHROPIC_BASE_URL $ANTHROPIC_AUTH_TOKEN"\nexit $EXIT\n', { mode: 0o755 });
+    const env = { CCX_CLAUDE_PATH: fakeClaude, TRY_KEY: 'sk-try', EXIT: '0' };
+    const adHoc = ['run', '--base-url', 'https://try.example', '--api-key-env', 'TRY_KEY'];
+
+    assert.match(ccx(adHoc, undefined, env).stdout, /ad-hoc https:\/\/try\.example sk-try/);
+    assert.strictEqual(ccx(['show', 'ad-hoc']).status, 1);
+
+    assert.strictEqual(ccx([...adHoc, '--save', 'tried'], undefined, { ...env, EXIT: '2' }).status, 2);
+    assert.strictEqual(ccx(['show', 'tried']).status, 1);
+
+    assert.strictEqual(ccx([...adHoc, '--save', 'tried'], undefined, env).status, 0);
+    assert.match(ccx(['show', 'tried']).stdout, /https:\/\/try\.example/);
+    // The saved profile reads the key from the same variable rather than storing it
+    assert.strictEqual(readStore(home).profiles.tried.apiKey, 'env:TRY_KEY');
+    assert.match(ccx(['run', 'tried'], undefined, { ...env, TRY_KEY: 'sk-rotated' }).stdout, /tried https:\/\/try\.example sk-rotated/);
+  });
+});
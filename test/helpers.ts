@@ -0,0 +1,82 @@
+// Fixtures for tests that run the CLI: a throwaway home holding a config store, and the CLI
+// spawned against it without the profile variables of the shell running the tests
+
+import { spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Profile, ProfileConfig } from '../src/types.js';
+
+const CLI = path.resolve('src', 'cli.ts');
+const TSX = import.meta.resolve('tsx');
+
+// The CLI as a shell command line, for scripts that eval its output
+export const CLI_COMMAND = `"${process.execPath}" --import "${TSX}" "${CLI}"`;
+
+export function hasShell(command: string): boolean {
+  return spawnSync(command, ['-c', 'exit 0']).status === 0;
+}
+
+export function savedProfile(name: string, fields: Partial<Profile> = {}): Profile {
+  return { name, provider: 'custom', baseUrl: '', clearAnthropicKey: true, createdAt: '', updatedAt: '', ...fields };
+}
+
+// Where conf keeps the store when HOME and XDG_CONFIG_HOME point at home
+export function storeDir(home: string): string {
+  return process.platform === 'darwin'
+    ? path.join(home, 'Library', 'Preferences', 'claude-env-nodejs')
+    : path.join(home, 'claude-env-nodejs');
+}
+
+// A temp home whose store holds the given config (realpath'd, so cwd comparisons hold on macOS)
+export function makeHome(prefix: string, store: Partial<ProfileConfig> = {}): string {
+  const home = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), prefix)));
+  fs.mkdirSync(storeDir(home), { recursive: true });
+  fs.writeFileSync(path.join(storeDir(home), 'config.json'), JSON.stringify(store));
+  return home;
+}
+
+export function readStore(home: string): ProfileConfig {
+  return JSON.parse(fs.readFileSync(path.join(storeDir(home), 'config.json'), 'utf8'));
+}
+
+// The current environment pointed at home; an undefined value in env removes that variable
+export function cliEnv(home: string, env: NodeJS.ProcessEnv = {}): NodeJS.ProcessEnv {
+  const base = { ...process.env };
+  for (const key of Object.keys(base)) {
+    if (key.startsWith('ANTHROPIC_') || key.startsWith('CCX_') || key.startsWith('CLAUDE_')) delete base[key];
+  }
+  const merged: NodeJS.ProcessEnv = { ...base, HOME: home, XDG_CONFIG_HOME: home, ...env };
+  for (const key of Object.keys(merged)) {
+    if (merged[key] === undefined) delete merged[key];
+  }
+  return merged;
+}
+
+export interface CliOptions {
+  env?: NodeJS.ProcessEnv;
+  input?: string;
+  cwd?: string;  // Defaults to home
+}
+
+export function runCli(home: string, args: string[], options: CliOptions = {}) {
+  return spawnSync(process.execPath, ['--import', TSX, CLI, ...args], {
+    encoding: 'utf8',
+    cwd: options.cwd ?? home,
+    input: options.input,
+    env: cliEnv(home, options.env)
+  });
+}
+
+// Runs a bash script (one line per entry) in home with `ccx` defined as the CLI; returns stdout's lines
+export function runBash(home: string, lines: string[], options: CliOptions = {}): string[] {
+  const result = spawnSync('bash', ['-c', [`ccx() { ${CLI_COMMAND} "$@"; }`, ...lines].join('\n')], {
+    encoding: 'utf8',
+    cwd: options.cwd ?? home,
+    env: cliEnv(home, options.env)
+  });
+  if (result.status !== 0) {
+    throw new Error(`bash exited with ${result.status}: ${result.stderr}`);
+  }
+  return result.stdout.trim().split('\n');
+}
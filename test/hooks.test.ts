@@ -0,0 +1,168 @@
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { test, describe, before, after } from 'node:test';
+import { generateHookScript, HOOK_SHELLS } from '../src/lib/hooks.js';
+import { fingerprintProjectFile, PROJECT_FILES } from '../src/lib/project.js';
+import { CLI_COMMAND, hasShell, makeHome, readStore, runBash, runCli, savedProfile, storeDir } from './helpers.js';
+
+describe('generateHookScript', () => {
+  test('every hook shell checks each project file name', () => {
+    for (const shell of HOOK_SHELLS) {
+      const script = generateHookScript(shell);
+      for (const file of PROJECT_FILES) {
+        assert.ok(script.includes(file), `${shell} hook is missing ${file}`);
+      }
+      assert.ok(script.includes('pop --hook --shell'), `${shell} hook should pop its own frame rather than reset`);
+      assert.ok(script.includes('use --hook --shell'), `${shell} hook should mark the frame it pushes`);
+    }
+  });
+});
+
+describe('bash hook', { skip: !hasShell('bash') }, () => {
+  let home: string;
+
+  before(() => {
+    home = makeHome('ccx-hook-');
+
+    // The hook runs `command ccx`, so it has to be an executable on PATH
+    fs.mkdirSync(path.join(home, 'bin'));
+    fs.writeFileSync(path.join(home, 'bin', 'ccx'), `#!/bin/sh\nexec ${CLI_COMMAND} "$@"\n`, { mode: 0o755 });
+
+    const trustedProjects: Record<string, string> = {};
+    for (const [dir, file, content] of [
+      ['alpha', '.ccenv.json', '{"profile": "alpha"}'],
+      ['beta', '.ccxrc', 'beta'],
+      ['broken', '.ccxrc', 'missing'],
+      ['cloned', '.ccxrc', 'alpha']
+    ]) {
+      fs.mkdirSync(path.join(home, dir, 'src'), { recursive: true });
+      fs.writeFileSync(path.join(home, dir, file), content);
+      if (dir !== 'cloned') {
+        const { path: key, hash } = fingerprintProjectFile(path.join(home, dir, file));
+        trustedProjects[key] = hash;
+      }
+    }
+    fs.mkdirSync(path.join(home, 'plain'));
+
+    fs.writeFileSync(path.join(storeDir(home), 'config.json'), JSON.stringify({
+      schemaVersion: 2,
+      profiles: {
+        manual: savedProfile('manual', { baseUrl: 'https://manual.example.com' }),
+        alpha: savedProfile('alpha', { baseUrl: 'https://alpha.example.com' }),
+        beta: savedProfile('beta', { baseUrl: 'https://beta.example.com' })
+      },
+      settings: {},
+      trustedProjects
+    }));
+  });
+
+  after(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  // Non-interactive bash has no prompt, so `visit` calls the hook itself after each cd
+  function bash(lines: string[]): string[] {
+    return runBash(home, [
+      generateHookScript('bash'),
+      'show() { echo "${CCX_ACTIVE_PROFILE:-none} ${ANTHROPIC_BASE_URL:-none}"; }',
+      'visit() { cd "$1" && __ccx_hook 2>/dev/null; show; }',
+      ...lines
+    ], { env: { PATH: `${path.join(home, 'bin')}:${process.env.PATH}` } });
+  }
+
+  test('applies the project profile on entering and undoes it on leaving', () => {
+    assert.deepStrictEqual(bash(['visit alpha/src', 'visit ..', 'visit ../plain']), [
+      'alpha https://alpha.example.com',
+      'alpha https://alpha.example.com',
+      'none none'
+    ]);
+  });
+
+  test('switches straight from one project to the next', () => {
+    assert.deepStrictEqual(bash(['visit alpha', 'visit ../beta/src', 'visit ../../plain']), [
+      'alpha https://alpha.example.com',
+      'beta https://beta.example.com',
+      'none none'
+    ]);
+  });
+
+  test('leaving a project brings back a profile applied by hand', () => {
+    const lines = bash([
+      'eval "$(command ccx use manual --shell bash)"',
+      'show',
+      'visit alpha',
+      'visit ../plain'
+    ]);
+    assert.deepStrictEqual(lines, [
+      'manual https://manual.example.com',
+      'alpha https://alpha.example.com',
+      'manual https://manual.example.com'
+    ]);
+  });
+
+  test('leaving also undoes a ccx use made inside the project', () => {
+    const lines = bash([
+      'eval "$(command ccx use manual --shell bash)"',
+      'visit alpha',
+      'eval "$(command ccx use beta --shell bash)"',
+      'show',
+      'visit ../plain',
+      // Only the frame from before entering is left
+      'eval "$(command ccx pop --shell bash)"',
+      'show'
+    ]);
+    assert.deepStrictEqual(lines, [
+      'alpha https://alpha.example.com',
+      'beta https://beta.example.com',
+      'manual https://manual.example.com',
+      'none none'
+    ]);
+  });
+
+  test('leaving after a reset inside the project leaves the environment alone', () => {
+    const lines = bash([
+      'visit alpha',
+      'eval "$(command ccx reset --shell bash)"',
+      'show',
+      'cd ../plain && __ccx_hook',
+      'show'
+    ]);
+    assert.deepStrictEqual(lines, ['alpha https://alpha.example.com', 'none none', 'none none']);
+  });
+
+  test('a project whose profile fails to apply leaves the environment alone', () => {
+    const lines = bash(['eval "$(command ccx use manual --shell bash)"', 'visit broken', 'visit ../plain']);
+    // The failed use is not recorded, so leaving doesn't pop the profile applied by hand
+    assert.deepStrictEqual(lines, ['manual https://manual.example.com', 'manual https://manual.example.com']);
+  });
+
+  test('a project file that was never allowed is not applied', () => {
+    assert.deepStrictEqual(bash(['visit cloned', 'visit ../plain']), ['none none', 'none none']);
+
+    const use = runCli(home, ['use', '--hook', '--shell', 'bash'], { cwd: path.join(home, 'cloned') });
+    assert.strictEqual(use.status, 1);
+    assert.match(use.stderr, /cloned\/\.ccxrc is not allowed\. Review it, then run "ccx allow"/);
+    assert.strictEqual(use.stdout, '');
+  });
+
+  test('ccx allow trusts the file until it changes, and ccx deny withdraws it', () => {
+    const file = path.join(home, 'cloned', '.ccxrc');
+
+    const allow = runCli(home, ['allow'], { cwd: path.join(home, 'cloned', 'src') });
+    assert.strictEqual(allow.status, 0, allow.stderr);
+    assert.strictEqual(readStore(home).trustedProjects?.[file], fingerprintProjectFile(file).hash);
+    assert.deepStrictEqual(bash(['visit cloned', 'visit ../plain']), ['alpha https://alpha.example.com', 'none none']);
+
+    fs.writeFileSync(file, 'beta');
+    assert.deepStrictEqual(bash(['visit cloned']), ['none none']);
+
+    assert.strictEqual(runCli(home, ['allow', file]).status, 0);
+    assert.deepStrictEqual(bash(['visit cloned']), ['beta https://beta.example.com']);
+
+    assert.strictEqual(runCli(home, ['deny', path.join(home, 'cloned')]).status, 0);
+    assert.strictEqual(readStore(home).trustedProjects?.[file], undefined);
+    assert.deepStrictEqual(bash(['visit cloned']), ['none none']);
+    assert.match(runCli(home, ['deny', file]).stderr, /is not allowed/);
+  });
+});
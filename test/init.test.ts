@@ -0,0 +1,60 @@
+import assert from 'node:assert';
+import { spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test, describe, before, after } from 'node:test';
+import { generateInitScript } from '../src/lib/init.js';
+
+function hasShell(command: string): boolean {
+  return spawnSync(command, ['-c', 'exit 0']).status === 0;
+}
+
+// A stand-in ccx binary: `use` prints a script, `reset` fails, anything else echoes its arguments
+const FAKE_CCX = `#!/bin/sh
+case "$1" in
+  use) echo "export CCX_TEST='$*'" ;;
+  reset) exit 3 ;;
+  *) echo "args: $*" ;;
+esac
+`;
+
+describe('generateInitScript', () => {
+  let binDir: string;
+
+  before(() => {
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ccx-init-'));
+    fs.writeFileSync(path.join(binDir, 'ccx'), FAKE_CCX, { mode: 0o755 });
+  });
+
+  after(() => {
+    fs.rmSync(binDir, { recursive: true, force: true });
+  });
+
+  function runBash(commands: string): string {
+    const script = `${generateInitScript('bash')}\n${commands}`;
+    const result = spawnSync('bash', ['--norc', '-c', script], {
+      encoding: 'utf8',
+      env: { ...process.env, PATH: `${binDir}${path.delimiter}${process.env.PATH}` }
+    });
+    return result.stdout;
+  }
+
+  test('rejects shells without an integration', () => {
+    assert.throws(() => generateInitScript('cmd'), /not supported for cmd/);
+  });
+
+  test('bash applies ccx use to the current shell', { skip: !hasShell('bash') }, () => {
+    assert.strictEqual(runBash('ccx use work; echo "$CCX_TEST"'), 'use --shell bash work\n');
+  });
+
+  test('bash passes other commands, help and command substitutions through', { skip: !hasShell('bash') }, () => {
+    assert.strictEqual(runBash('ccx list -a'), 'args: list -a\n');
+    assert.strictEqual(runBash('ccx use --help; echo "[${CCX_TEST-}]"'), "export CCX_TEST='use --help'\n[]\n");
+    assert.strictEqual(runBash('echo "$(ccx use work)"'), "export CCX_TEST='use work'\n");
+  });
+
+  test('bash keeps the exit status when ccx fails', { skip: !hasShell('bash') }, () => {
+    assert.strictEqual(runBash('ccx reset; echo $?'), '3\n');
+  });
+});
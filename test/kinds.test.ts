@@ -0,0 +1,180 @@
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import { test, describe, before, after } from 'node:test';
+import {
+  changeProfileKind,
+  getForeignSelectorVars,
+  getKindVars,
+  validateProfileFields
+} from '../src/lib/kinds.js';
+import { generateEnvVars, generateShellScript } from '../src/lib/shell.js';
+import { Profile } from '../src/types.js';
+import { makeHome, readStore, runCli, savedProfile } from './helpers.js';
+
+function openRouterProfile(): Profile {
+  return {
+    name: 'work',
+    provider: 'openrouter',
+    baseUrl: 'https://openrouter.ai/api',
+    model: 'anthropic/claude-sonnet-4',
+    roleModels: { smallFast: 'anthropic/claude-haiku-4' },
+    apiKey: 'sk-or-test',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+  };
+}
+
+describe('validateProfileFields', () => {
+  test('each kind requires its own fields', () => {
+    assert.deepStrictEqual(validateProfileFields({}), ['Base URL is required']);
+    assert.deepStrictEqual(validateProfileFields({ baseUrl: 'https://x' }), []);
+    assert.deepStrictEqual(validateProfileFields({ kind: 'bedrock' }), ['AWS region is required for Bedrock profiles']);
+    assert.deepStrictEqual(validateProfileFields({ kind: 'bedrock', region: 'us-east-1' }), []);
+    assert.deepStrictEqual(validateProfileFields({ kind: 'vertex', region: 'us-east5' }), [
+      'GCP project ID is required for Vertex profiles'
+    ]);
+    assert.deepStrictEqual(validateProfileFields({ kind: 'vertex', region: 'us-east5', projectId: 'p' }), []);
+  });
+
+  test('rejects an unknown kind before anything else', () => {
+    assert.deepStrictEqual(validateProfileFields({ kind: 'azure' as never }), [
+      'Unknown kind "azure". Expected one of: anthropic, bedrock, vertex'
+    ]);
+  });
+
+  test('rejects claudeArgs that are not a list of strings', () => {
+    assert.deepStrictEqual(validateProfileFields({ baseUrl: 'https://x', claudeArgs: '--yolo' as never }), [
+      'claudeArgs must be a list of strings'
+    ]);
+  });
+});
+
+describe('kind env vars', () => {
+  test('a Bedrock profile sets the Bedrock vars and clears the other backends\' selectors', () => {
+    const env = generateEnvVars(savedProfile('aws', {
+      kind: 'bedrock',
+      region: 'us-west-2',
+      awsProfile: 'work',
+      apiKey: 'bedrock-key',
+      baseUrl: 'https://gateway.example.com'
+    }));
+    assert.strictEqual(env.CLAUDE_CODE_USE_BEDROCK, '1');
+    assert.strictEqual(env.AWS_REGION, 'us-west-2');
+    assert.strictEqual(env.AWS_PROFILE, 'work');
+    assert.strictEqual(env.AWS_BEARER_TOKEN_BEDROCK, 'bedrock-key');
+    assert.strictEqual(env.ANTHROPIC_BEDROCK_BASE_URL, 'https://gateway.example.com');
+    for (const key of getForeignSelectorVars('bedrock')) {
+      assert.strictEqual(env[key], '', key);
+    }
+  });
+
+  test('a Vertex profile sets the Vertex vars', () => {
+    const env = generateEnvVars(savedProfile('gcp', { kind: 'vertex', region: 'us-east5', projectId: 'proj' }));
+    assert.strictEqual(env.CLAUDE_CODE_USE_VERTEX, '1');
+    assert.strictEqual(env.CLOUD_ML_REGION, 'us-east5');
+    assert.strictEqual(env.ANTHROPIC_VERTEX_PROJECT_ID, 'proj');
+    assert.strictEqual(env.CLAUDE_CODE_USE_BEDROCK, '');
+  });
+
+  test('reset clears every variable the kind sets', () => {
+    for (const kind of ['anthropic', 'bedrock', 'vertex'] as const) {
+      const vars = getKindVars(kind);
+      const profile = savedProfile('p', { kind, baseUrl: 'https://x', region: 'r', projectId: 'p', awsProfile: 'a', apiKey: 'k', model: 'm' });
+      const set = Object.entries(generateEnvVars(profile)).filter(([, value]) => value).map(([key]) => key);
+      assert.deepStrictEqual(set.filter(key => !vars.includes(key)), [], kind);
+    }
+  });
+});
+
+describe('changeProfileKind', () => {
+  test('clears the old kind\'s endpoint and models but keeps the API key', () => {
+    const profile = openRouterProfile();
+    const cleared = changeProfileKind(profile, 'bedrock');
+
+    assert.deepStrictEqual(cleared, ['baseUrl', 'model', 'roleModels']);
+    assert.strictEqual(profile.kind, 'bedrock');
+    assert.strictEqual(profile.provider, 'bedrock');
+    assert.strictEqual(profile.baseUrl, '');
+    assert.strictEqual(profile.model, undefined);
+    assert.strictEqual(profile.roleModels, undefined);
+    assert.strictEqual(profile.apiKey, 'sk-or-test');
+  });
+
+  test('the old base URL is not emitted as the Bedrock gateway', () => {
+    const profile = openRouterProfile();
+    changeProfileKind(profile, 'bedrock');
+    profile.region = 'us-east-1';
+
+    assert.deepStrictEqual(validateProfileFields(profile), []);
+    assert.ok(!generateShellScript(profile, 'bash').includes('openrouter.ai'));
+  });
+
+  test('validation then reports the new kind\'s missing fields', () => {
+    const profile = openRouterProfile();
+    changeProfileKind(profile, 'vertex');
+
+    assert.deepStrictEqual(validateProfileFields(profile), [
+      'Region is required for Vertex profiles',
+      'GCP project ID is required for Vertex profiles'
+    ]);
+  });
+
+  test('switching back to anthropic requires a base URL again', () => {
+    const profile: Profile = { ...openRouterProfile(), kind: 'bedrock', baseUrl: '', region: 'us-east-1' };
+    assert.deepStrictEqual(changeProfileKind(profile, 'anthropic'), ['region', 'model', 'roleModels']);
+
+    assert.strictEqual(profile.kind, undefined);
+    assert.strictEqual(profile.provider, 'custom');
+    assert.deepStrictEqual(validateProfileFields(profile), ['Base URL is required']);
+  });
+
+  test('keeps every field when the kind does not change', () => {
+    const profile = openRouterProfile();
+    assert.deepStrictEqual(changeProfileKind(profile, 'anthropic'), []);
+    assert.deepStrictEqual(profile, openRouterProfile());
+  });
+});
+
+describe('ccx edit --kind', () => {
+  let home: string;
+
+  before(() => {
+    home = makeHome('ccx-kinds-', {
+      schemaVersion: 2,
+      profiles: { work: savedProfile('work', { provider: 'openrouter', baseUrl: 'https://openrouter.ai/api', model: 'z-ai/glm-4.7' }) }
+    });
+  });
+
+  after(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  test('rejects an unknown kind', () => {
+    const result = runCli(home, ['edit', 'work', '--kind', 'azure']);
+    assert.strictEqual(result.status, 1);
+    assert.match(result.stderr, /Unknown kind "azure"/);
+  });
+
+  test('switching kind without the new kind\'s fields fails and changes nothing', () => {
+    const result = runCli(home, ['edit', 'work', '--kind', 'bedrock']);
+    assert.strictEqual(result.status, 1);
+    assert.match(result.stderr, /AWS region is required for Bedrock profiles/);
+    assert.strictEqual(readStore(home).profiles.work.baseUrl, 'https://openrouter.ai/api');
+  });
+
+  test('switching kind clears the old fields and keeps the ones given with it', () => {
+    const result = runCli(home, ['edit', 'work', '--kind', 'bedrock', '--region', 'us-west-2']);
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.match(result.stdout, /Switching to bedrock cleared baseUrl, model/);
+
+    const saved = readStore(home).profiles.work;
+    assert.strictEqual(saved.kind, 'bedrock');
+    assert.strictEqual(saved.provider, 'bedrock');
+    assert.strictEqual(saved.baseUrl, '');
+    assert.strictEqual(saved.model, undefined);
+    assert.strictEqual(saved.region, 'us-west-2');
+
+    const use = runCli(home, ['use', 'work', '--shell', 'bash']);
+    assert.doesNotMatch(use.stdout, /openrouter/);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert';
+import { test, describe } from 'node:test';
+import { getSchemaVersion, pendingMigrations, CONFIG_SCHEMA_VERSION, MIGRATIONS } from '../src/lib/migrations.js';
+import { Profile, ProfileConfig } from '../src/types.js';
+
+function storeWith(profile: Partial<Profile>): ProfileConfig {
+  return {
+    profiles: {
+      work: { name: 'work', provider: 'custom', baseUrl: '', clearAnthropicKey: true, createdAt: '', updatedAt: '', ...profile }
+    },
+    templates: {},
+    activeProfile: null,
+    settings: { encryptionEnabled: true, defaultShell: 'bash' }
+  };
+}
+
+describe('config migrations', () => {
+  test('are numbered in order up to the current version', () => {
+    assert.deepStrictEqual(MIGRATIONS.map(migration => migration.version), MIGRATIONS.map((_, i) => i + 1));
+    assert.strictEqual(CONFIG_SCHEMA_VERSION, MIGRATIONS.length);
+  });
+
+  test('treat unversioned stores as version 0', () => {
+    assert.strictEqual(getSchemaVersion({}), 0);
+    assert.strictEqual(pendingMigrations(0).length, CONFIG_SCHEMA_VERSION);
+    assert.strictEqual(pendingMigrations(CONFIG_SCHEMA_VERSION).length, 0);
+  });
+
+  test('v1 moves role variables out of extraEnv unless the role is already set', () => {
+    const store = storeWith({
+      kind: 'anthropic',
+      roleModels: { opus: 'big' },
+      extraEnv: { ANTHROPIC_SMALL_FAST_MODEL: 'small', ANTHROPIC_DEFAULT_OPUS_MODEL: 'other', FOO: '1' }
+    });
+    const changes = MIGRATIONS[0].migrate(store);
+
+    const profile = store.profiles.work;
+    assert.deepStrictEqual(profile.roleModels, { opus: 'big', smallFast: 'small' });
+    assert.deepStrictEqual(profile.extraEnv, { FOO: '1' });
+    assert.strictEqual(profile.kind, undefined);
+    assert.strictEqual(changes.length, 3);
+  });
+
+  test('v1 leaves current profiles alone', () => {
+    const store = storeWith({ kind: 'bedrock', region: 'us-east-1' });
+    const before = structuredClone(store);
+    assert.deepStrictEqual(MIGRATIONS[0].migrate(store), []);
+    assert.deepStrictEqual(store, before);
+  });
+
+  test('v2 unpins the built-in default shell but keeps a chosen one', () => {
+    const builtIn = process.platform === 'win32' ? 'powershell' : 'bash';
+    const pinned = storeWith({});
+    pinned.settings.defaultShell = builtIn;
+    assert.strictEqual(MIGRATIONS[1].migrate(pinned).length, 1);
+    assert.strictEqual(pinned.settings.defaultShell, undefined);
+
+    const chosen = storeWith({});
+    chosen.settings.defaultShell = 'fish';
+    assert.deepStrictEqual(MIGRATIONS[1].migrate(chosen), []);
+    assert.strictEqual(chosen.settings.defaultShell, 'fish');
+  });
+});
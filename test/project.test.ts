@@ -0,0 +1,153 @@
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test, describe, before, after } from 'node:test';
+import { findProjectFile, readProjectFile, resolveProjectProfile } from '../src/lib/project.js';
+import { Profile } from '../src/types.js';
+
+const saved: Record<string, Profile> = {
+  work: {
+    name: 'work',
+    provider: 'custom',
+    baseUrl: 'https://work.example.com',
+    apiKey: 'sk-work',
+    clearAnthropicKey: true,
+    createdAt: '',
+    updatedAt: ''
+  }
+};
+
+const loadProfile = (name: string) => saved[name];
+
+describe('project files', () => {
+  let root: string;
+
+  function write(relative: string, content: string): string {
+    const file = path.join(root, relative);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  before(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'ccx-project-')));
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('walks up parent directories to the nearest project file', () => {
+    const file = write('walk/.ccenv.json', '{"profile": "work"}');
+    fs.mkdirSync(path.join(root, 'walk', 'src', 'deep'), { recursive: true });
+
+    assert.strictEqual(findProjectFile(path.join(root, 'walk', 'src', 'deep')), file);
+    assert.strictEqual(findProjectFile(path.join(root, 'walk')), file);
+  });
+
+  test('a nearer file wins over one further up', () => {
+    write('nested/.ccenv.json', '{"profile": "work"}');
+    const inner = write('nested/packages/app/.ccxrc', 'other');
+
+    assert.strictEqual(findProjectFile(path.join(root, 'nested', 'packages', 'app')), inner);
+  });
+
+  test('.ccenv.json wins over .ccxrc in the same directory', () => {
+    const json = write('both/.ccenv.json', '{"profile": "work"}');
+    write('both/.ccxrc', 'other');
+
+    assert.strictEqual(findProjectFile(path.join(root, 'both')), json);
+  });
+
+  test('a directory named like a project file is skipped', () => {
+    const file = write('dirs/.ccxrc', 'work');
+    fs.mkdirSync(path.join(root, 'dirs', 'sub', '.ccenv.json'), { recursive: true });
+
+    assert.strictEqual(findProjectFile(path.join(root, 'dirs', 'sub')), file);
+  });
+
+  test('.ccxrc may be a bare profile name', () => {
+    const file = write('bare/.ccxrc', 'work\n');
+    assert.deepStrictEqual(readProjectFile(file), { profile: 'work' });
+  });
+
+  test('resolves a saved profile named from a parent directory', () => {
+    const file = write('named/.ccxrc', 'work');
+    fs.mkdirSync(path.join(root, 'named', 'src'), { recursive: true });
+
+    const resolved = resolveProjectProfile(path.join(root, 'named', 'src'), loadProfile);
+    assert.deepStrictEqual(resolved, { profile: saved.work, source: file, saved: true });
+  });
+
+  test('an inline profile extends a saved one without naming its key', () => {
+    const file = write('inline/.ccenv.json', JSON.stringify({ profile: { extends: 'work', model: 'glm-4.7' } }));
+
+    const resolved = resolveProjectProfile(path.join(root, 'inline'), loadProfile);
+    assert.strictEqual(resolved?.source, file);
+    assert.strictEqual(resolved?.saved, false);
+    assert.strictEqual(resolved?.profile.baseUrl, 'https://work.example.com');
+    assert.strictEqual(resolved?.profile.apiKey, 'sk-work');
+    assert.strictEqual(resolved?.profile.model, 'glm-4.7');
+  });
+
+  test('an inline profile with "extends" cannot redirect the saved key or add env', () => {
+    const cases: Record<string, object> = {
+      baseUrl: { baseUrl: 'https://collector.example.com' },
+      kind: { kind: 'bedrock', region: 'us-east-1' },
+      extraEnv: { extraEnv: { API_TIMEOUT_MS: '600000' } }
+    };
+    for (const [field, override] of Object.entries(cases)) {
+      const file = write(`extends-${field}/.ccenv.json`, JSON.stringify({ profile: { extends: 'work', ...override } }));
+      assert.throws(() => resolveProjectProfile(path.join(root, `extends-${field}`), loadProfile), {
+        message: `${file}: project files that use "extends" must not contain ${field}. Set it on the saved profile instead.`
+      });
+    }
+  });
+
+  test('an inline profile may only set allowed extraEnv', () => {
+    const allowed = write('env-ok/.ccenv.json', JSON.stringify({
+      profile: { baseUrl: 'https://x', extraEnv: { API_TIMEOUT_MS: '600000', DISABLE_TELEMETRY: '1' } }
+    }));
+    assert.deepStrictEqual(resolveProjectProfile(path.dirname(allowed), loadProfile)?.profile.extraEnv, {
+      API_TIMEOUT_MS: '600000',
+      DISABLE_TELEMETRY: '1'
+    });
+
+    for (const key of ['NODE_OPTIONS', 'HTTPS_PROXY', 'LD_PRELOAD']) {
+      const file = write(`env-${key}/.ccenv.json`, JSON.stringify({ profile: { baseUrl: 'https://x', extraEnv: { [key]: 'x' } } }));
+      assert.throws(() => resolveProjectProfile(path.dirname(file), loadProfile), {
+        message: new RegExp(`^${file}: project files may not set ${key}\\. Allowed in extraEnv: API_TIMEOUT_MS, `)
+      });
+    }
+  });
+
+  test('an inline profile cannot read secrets or keep the user\'s Anthropic key', () => {
+    const secret = write('secret/.ccenv.json', JSON.stringify({ profile: { baseUrl: 'https://x', extraEnv: { API_TIMEOUT_MS: 'env:HOME' } } }));
+    assert.throws(() => resolveProjectProfile(path.dirname(secret), loadProfile), {
+      message: `${secret}: project files must not contain secret references (extraEnv.API_TIMEOUT_MS). Set it on a saved profile and use "extends".`
+    });
+
+    const keep = write('keep-key/.ccenv.json', JSON.stringify({ profile: { baseUrl: 'https://x', clearAnthropicKey: false } }));
+    assert.throws(() => resolveProjectProfile(path.dirname(keep), loadProfile), {
+      message: `${keep}: project files must not contain clearAnthropicKey. Set it on a saved profile and use "extends".`
+    });
+  });
+
+  test('an inline profile may only map known model roles', () => {
+    const file = write('roles/.ccenv.json', JSON.stringify({ profile: { baseUrl: 'https://x', roleModels: { bogus: 'm' } } }));
+    assert.throws(() => resolveProjectProfile(path.join(root, 'roles'), loadProfile), {
+      message: `${file}: Unknown model role "bogus". Expected one of: smallFast, opus, sonnet, haiku`
+    });
+  });
+
+  test('errors name the offending file', () => {
+    const missing = write('missing/.ccxrc', 'nope');
+    assert.throws(() => resolveProjectProfile(path.join(root, 'missing'), loadProfile), {
+      message: `${missing}: profile "nope" not found`
+    });
+
+    const keyed = write('keyed/.ccenv.json', JSON.stringify({ profile: { baseUrl: 'https://x', apiKey: 'sk' } }));
+    assert.throws(() => resolveProjectProfile(path.join(root, 'keyed'), loadProfile), new RegExp(`^Error: ${keyed}: `));
+  });
+});
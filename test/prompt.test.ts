@@ -0,0 +1,40 @@
+import assert from 'node:assert';
+import { test, describe } from 'node:test';
+import { findDriftedVars, formatPromptSegment } from '../src/commands/prompt.js';
+import { generateEnvVars } from '../src/lib/shell.js';
+import { Profile } from '../src/types.js';
+
+const profile: Profile = {
+  name: 'work',
+  description: '',
+  provider: 'custom',
+  baseUrl: 'https://example.com',
+  model: 'glm-4.7',
+  apiKey: 'sk-secret',
+  clearAnthropicKey: true,
+  createdAt: '',
+  updatedAt: ''
+};
+
+describe('findDriftedVars', () => {
+  test('reports nothing right after ccx use', () => {
+    const env = { ...generateEnvVars(profile), CCX_ACTIVE_PROFILE: 'work' };
+    assert.deepStrictEqual(findDriftedVars(profile, env), []);
+  });
+
+  test('reports changed values and variables that should be unset', () => {
+    const env = { ...generateEnvVars(profile), ANTHROPIC_MODEL: 'other', ANTHROPIC_API_KEY: 'sk-ant' };
+    assert.deepStrictEqual(findDriftedVars(profile, env).sort(), ['ANTHROPIC_API_KEY', 'ANTHROPIC_MODEL']);
+  });
+});
+
+describe('formatPromptSegment', () => {
+  test('is empty without an active profile', () => {
+    assert.strictEqual(formatPromptSegment({}), '');
+  });
+
+  test('shows the profile and model from the env', () => {
+    assert.strictEqual(formatPromptSegment({ CCX_ACTIVE_PROFILE: 'not-saved', ANTHROPIC_MODEL: 'glm-4.7' }), '⎈ not-saved:glm-4.7');
+    assert.strictEqual(formatPromptSegment({ CCX_ACTIVE_PROFILE: 'not-saved' }), '⎈ not-saved');
+  });
+});
@@ -0,0 +1,99 @@
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test, describe } from 'node:test';
+import {
+  findSecretReferences,
+  isSecretReference,
+  resolveProfileSecrets,
+  resolveSecretReference,
+  SecretReferenceError
+} from '../src/lib/secrets.js';
+import { Profile } from '../src/types.js';
+
+const profile: Profile = {
+  name: 'work',
+  provider: 'custom',
+  baseUrl: 'https://example.com',
+  clearAnthropicKey: true,
+  createdAt: '',
+  updatedAt: ''
+};
+
+describe('isSecretReference', () => {
+  test('recognizes the reference prefixes only', () => {
+    for (const value of ['env:KEY', 'file:~/key', 'cmd:pass show key', 'op://vault/item/field']) {
+      assert.ok(isSecretReference(value), value);
+    }
+    for (const value of ['sk-or-v1-abc', 'https://example.com', 'op:vault']) {
+      assert.ok(!isSecretReference(value), value);
+    }
+  });
+});
+
+describe('resolveSecretReference', () => {
+  test('reads environment variables', () => {
+    process.env.CCX_TEST_SECRET = 'sk-env';
+    try {
+      assert.strictEqual(resolveSecretReference('env:CCX_TEST_SECRET', 'the key'), 'sk-env');
+    } finally {
+      delete process.env.CCX_TEST_SECRET;
+    }
+  });
+
+  test('reads files without the trailing newline', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ccx-secret-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'key'), 'sk-file\n');
+      assert.strictEqual(resolveSecretReference(`file:${path.join(dir, 'key')}`, 'the key'), 'sk-file');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('runs commands', { skip: process.platform === 'win32' }, () => {
+    assert.strictEqual(resolveSecretReference('cmd:echo sk-cmd', 'the key'), 'sk-cmd');
+  });
+
+  test('names the reference that failed', () => {
+    assert.throws(
+      () => resolveSecretReference('env:CCX_TEST_UNSET', 'the API key of profile "work"'),
+      (e: Error) => e instanceof SecretReferenceError &&
+        e.message === 'Cannot resolve the API key of profile "work" (env:CCX_TEST_UNSET): CCX_TEST_UNSET is not set'
+    );
+    assert.throws(() => resolveSecretReference('cmd:exit 3', 'the key'), /\(cmd:exit 3\): exited with status 3/);
+    assert.throws(() => resolveSecretReference('cmd:true', 'the key'), /\(cmd:true\): it is empty/);
+  });
+});
+
+describe('resolveProfileSecrets', () => {
+  test('resolves the API key and extra env references and keeps other values', () => {
+    process.env.CCX_TEST_SECRET = 'sk-env';
+    try {
+      const resolved = resolveProfileSecrets({
+        ...profile,
+        apiKey: 'env:CCX_TEST_SECRET',
+        extraEnv: { TOKEN: 'env:CCX_TEST_SECRET', TIMEOUT: '600000' }
+      });
+      assert.strictEqual(resolved.apiKey, 'sk-env');
+      assert.deepStrictEqual(resolved.extraEnv, { TOKEN: 'sk-env', TIMEOUT: '600000' });
+    } finally {
+      delete process.env.CCX_TEST_SECRET;
+    }
+  });
+
+  test('says which extra env variable failed', () => {
+    assert.throws(
+      () => resolveProfileSecrets({ ...profile, extraEnv: { TOKEN: 'env:CCX_TEST_UNSET' } }),
+      /Cannot resolve TOKEN of profile "work" \(env:CCX_TEST_UNSET\)/
+    );
+  });
+
+  test('findSecretReferences lists the fields holding references', () => {
+    assert.deepStrictEqual(
+      findSecretReferences({ apiKey: 'cmd:cat key', extraEnv: { A: '1', B: 'file:/etc/passwd' } }),
+      ['apiKey', 'extraEnv.B']
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert';
+import { test, describe } from 'node:test';
+import { sanitizeImportedProfile, toSharedProfile } from '../src/lib/sharing.js';
+import { Profile } from '../src/types.js';
+
+const profile: Profile = {
+  name: 'work',
+  provider: 'custom',
+  baseUrl: 'https://example.com',
+  apiKey: 'sk-secret',
+  clearAnthropicKey: true,
+  claudeArgs: ['--permission-mode', 'plan'],
+  claudePath: '/opt/claude',
+  createdAt: '',
+  updatedAt: ''
+};
+
+describe('shared profiles', () => {
+  test('are exported without the API key or the executable path', () => {
+    const shared = toSharedProfile(profile);
+    assert.strictEqual(shared.apiKey, undefined);
+    assert.strictEqual(shared.claudePath, undefined);
+    assert.deepStrictEqual(shared.claudeArgs, profile.claudeArgs);
+  });
+
+  test('lose their executable path on import', () => {
+    const imported = { ...profile };
+    assert.deepStrictEqual(sanitizeImportedProfile(imported), { errors: [], ignored: ['claudePath'] });
+    assert.ok(!('claudePath' in imported));
+  });
+
+  test('are rejected with malformed claudeArgs or secret references', () => {
+    const badArgs = { ...profile, claudeArgs: '--dangerously-skip-permissions' } as unknown as Profile;
+    assert.deepStrictEqual(sanitizeImportedProfile(badArgs).errors, ['claudeArgs must be a list of strings']);
+
+    const withReference = { ...profile, extraEnv: { TOKEN: 'cmd:cat ~/.ssh/id_rsa' } };
+    assert.match(sanitizeImportedProfile(withReference).errors[0], /secret references \(extraEnv\.TOKEN\)/);
+  });
+
+  test('are validated like created profiles', () => {
+    const unknownKind = { ...profile, kind: 'azure' } as unknown as Profile;
+    assert.match(sanitizeImportedProfile(unknownKind).errors[0], /Unknown kind "azure"/);
+
+    const { name, createdAt, updatedAt } = profile;
+    const bedrock = { name, createdAt, updatedAt, kind: 'bedrock' } as Profile;
+    assert.deepStrictEqual(sanitizeImportedProfile(bedrock).errors, ['AWS region is required for Bedrock profiles']);
+    assert.strictEqual(bedrock.provider, 'custom');
+    assert.strictEqual(bedrock.clearAnthropicKey, true);
+
+    const badRole = { ...profile, roleModels: { bogus: 'm' } } as unknown as Profile;
+    assert.deepStrictEqual(sanitizeImportedProfile(badRole).errors, [
+      'Unknown model role "bogus". Expected one of: smallFast, opus, sonnet, haiku'
+    ]);
+    const badModel = { ...profile, roleModels: { opus: 4 } } as unknown as Profile;
+    assert.deepStrictEqual(sanitizeImportedProfile(badModel).errors, ['roleModels must map roles to model names']);
+
+    const badTypes = { ...profile, baseUrl: 42, extraEnv: { ANTHROPIC_MODEL: 'x' } } as unknown as Profile;
+    assert.deepStrictEqual(sanitizeImportedProfile(badTypes).errors, [
+      'baseUrl must be a string',
+      'ANTHROPIC_MODEL is managed by ccx. Use the profile\'s own options instead.'
+    ]);
+  });
+});
@@ -0,0 +1,321 @@
+import assert from 'node:assert';
+import { spawnSync } from 'node:child_process';
+import { test, describe } from 'node:test';
+import {
+  detectShell,
+  formatEnvLine,
+  generateEnvVars,
+  generateResetScript,
+  generateRestoreScript,
+  generateShellScript,
+  quoteValue
+} from '../src/lib/shell.js';
+import { Profile, ShellType } from '../src/types.js';
+
+// Values that would run a command or change meaning if quoted naively
+const PAYLOADS = [
+  'plain',
+  "it's",
+  "'; touch /tmp/ccx-pwned; '",
+  '$(touch /tmp/ccx-pwned)',
+  '`touch /tmp/ccx-pwned`',
+  '${HOME}',
+  '"double" quotes',
+  'back\\slash\\',
+  "back\\'slash",
+  'a & b | c ; d < e > f',
+  '100% ^caret^ !bang!',
+  'line\nbreak',
+  '   spaces   ',
+  '*?[glob]',
+  'unicode ✓ ‘curly’'
+];
+
+function hasShell(command: string): boolean {
+  return spawnSync(command, ['-c', 'exit 0']).status === 0;
+}
+
+// Evaluate a generated line in a real shell and read the variable back
+function roundTrip(shell: string, line: string, printVar: string): string {
+  const result = spawnSync(shell, ['-c', `${line}\n${printVar}`], { encoding: 'utf8' });
+  assert.strictEqual(result.status, 0, result.stderr);
+  return result.stdout;
+}
+
+function makeProfile(overrides: Partial<Profile> = {}): Profile {
+  return {
+    name: 'test',
+    description: '',
+    provider: 'custom',
+    baseUrl: 'https://example.com',
+    clearAnthropicKey: true,
+    createdAt: '',
+    updatedAt: '',
+    ...overrides
+  };
+}
+
+describe('quoteValue', () => {
+  test('bash and zsh use single quotes with the POSIX quote escape', () => {
+    assert.strictEqual(quoteValue('bash', "it's"), "'it'\\''s'");
+    assert.strictEqual(quoteValue('zsh', '$(x)'), "'$(x)'");
+  });
+
+  test('fish escapes backslashes as well as single quotes', () => {
+    assert.strictEqual(quoteValue('fish', "a\\b'c"), "'a\\\\b\\'c'");
+    assert.strictEqual(quoteValue('fish', 'ends\\'), "'ends\\\\'");
+  });
+
+  test('PowerShell doubles straight and typographic single quotes', () => {
+    assert.strictEqual(quoteValue('powershell', "it's"), "'it''s'");
+    assert.strictEqual(quoteValue('powershell', 'a\u2019b'), "'a\u2019\u2019b'");
+    assert.strictEqual(quoteValue('powershell', '$env:HOME `n'), "'$env:HOME `n'");
+  });
+
+  test('cmd quotes operators and doubles percent signs', () => {
+    assert.strictEqual(quoteValue('cmd', 'a & b | c ^ d'), '"a & b | c ^ d"');
+    assert.strictEqual(quoteValue('cmd', '%PATH%'), '"%%PATH%%"');
+  });
+
+  test('cmd rejects values it cannot represent', () => {
+    assert.throws(() => quoteValue('cmd', 'say "hi" & calc'), /double quotes/);
+    assert.throws(() => quoteValue('cmd', 'a\r\nb'), /line breaks/);
+  });
+
+  test('elvish doubles single quotes and leaves everything else literal', () => {
+    assert.strictEqual(quoteValue('elvish', "it's $x\\n"), "'it''s $x\\n'");
+  });
+
+  test('xonsh uses a Python string literal', () => {
+    for (const value of PAYLOADS) {
+      assert.strictEqual(JSON.parse(quoteValue('xonsh', value)), value);
+    }
+  });
+
+  test('tcsh and csh escape history expansion and reject line breaks', () => {
+    assert.strictEqual(quoteValue('tcsh', "it's!"), "'it'\\''s\\!'");
+    assert.strictEqual(quoteValue('csh', '$HOME `id`'), "'$HOME `id`'");
+    assert.throws(() => quoteValue('tcsh', 'a\nb'), /line breaks/);
+  });
+
+  test('NUL characters are rejected for every shell', () => {
+    for (const shell of ['bash', 'zsh', 'fish', 'powershell', 'cmd', 'elvish', 'xonsh', 'tcsh'] as ShellType[]) {
+      assert.throws(() => quoteValue(shell, 'a\0b'), /NUL/);
+    }
+  });
+});
+
+describe('formatEnvLine', () => {
+  test('rejects invalid variable names', () => {
+    for (const key of ['A;rm -rf ~', 'A B', '1ABC', 'A-B', '$(x)', '', 'A=B']) {
+      for (const shell of ['bash', 'fish', 'powershell', 'cmd'] as ShellType[]) {
+        assert.throws(() => formatEnvLine(shell, key, 'x'), /Invalid environment variable name/);
+        assert.throws(() => formatEnvLine(shell, key, ''), /Invalid environment variable name/);
+      }
+    }
+  });
+
+  test('an empty value unsets the variable', () => {
+    assert.strictEqual(formatEnvLine('bash', 'FOO', ''), 'unset FOO');
+    assert.strictEqual(formatEnvLine('fish', 'FOO', ''), 'set -e FOO');
+    assert.strictEqual(formatEnvLine('powershell', 'FOO', ''), 'Remove-Item Env:\\FOO -ErrorAction SilentlyContinue');
+    assert.strictEqual(formatEnvLine('cmd', 'FOO', ''), 'set "FOO="');
+  });
+
+  test('uses each shell\'s native set and unset syntax', () => {
+    assert.strictEqual(formatEnvLine('elvish', 'FOO', 'x'), "set-env FOO 'x'");
+    assert.strictEqual(formatEnvLine('elvish', 'FOO', ''), 'unset-env FOO');
+    assert.strictEqual(formatEnvLine('xonsh', 'FOO', 'x'), '$FOO = "x"');
+    assert.strictEqual(formatEnvLine('xonsh', 'FOO', ''), "${...}.pop('FOO', None)");
+    assert.strictEqual(formatEnvLine('tcsh', 'FOO', 'x'), "setenv FOO 'x'");
+    assert.strictEqual(formatEnvLine('csh', 'FOO', ''), 'unsetenv FOO');
+  });
+
+  test('cmd keeps the whole assignment inside the quotes', () => {
+    assert.strictEqual(formatEnvLine('cmd', 'FOO', 'a&b'), 'set "FOO=a&b"');
+  });
+
+  test('bash round-trips every payload unchanged', { skip: !hasShell('bash') }, () => {
+    for (const value of PAYLOADS) {
+      assert.strictEqual(roundTrip('bash', formatEnvLine('bash', 'V', value), 'printf %s "$V"'), value);
+    }
+  });
+
+  test('zsh round-trips every payload unchanged', { skip: !hasShell('zsh') }, () => {
+    for (const value of PAYLOADS) {
+      assert.strictEqual(roundTrip('zsh', formatEnvLine('zsh', 'V', value), 'printf %s "$V"'), value);
+    }
+  });
+
+  test('fish round-trips every payload unchanged', { skip: !hasShell('fish') }, () => {
+    for (const value of PAYLOADS) {
+      assert.strictEqual(roundTrip('fish', formatEnvLine('fish', 'V', value), 'printf %s "$V"'), value);
+    }
+  });
+
+  test('PowerShell round-trips every payload unchanged', { skip: !hasShell('pwsh') }, () => {
+    for (const value of PAYLOADS) {
+      const command = `${formatEnvLine('powershell', 'V', value)}; [Console]::Write($env:V)`;
+      const result = spawnSync('pwsh', ['-NoProfile', '-Command', command], { encoding: 'utf8' });
+      assert.strictEqual(result.stdout, value);
+    }
+  });
+});
+
+describe('generateEnvVars', () => {
+  test('an anthropic profile without a key or model clears the previous profile\'s', () => {
+    const env = generateEnvVars(makeProfile({ baseUrl: 'https://api.anthropic.com', clearAnthropicKey: false }));
+    assert.strictEqual(env.ANTHROPIC_BASE_URL, 'https://api.anthropic.com');
+    assert.strictEqual(env.ANTHROPIC_AUTH_TOKEN, '');
+    assert.strictEqual(env.ANTHROPIC_MODEL, '');
+    // Kept as it is in the shell
+    assert.ok(!('ANTHROPIC_API_KEY' in env));
+  });
+
+  test('maps each model role to its variable and clears unmapped roles', () => {
+    const env = generateEnvVars(makeProfile({ roleModels: { opus: 'glm-4.7', smallFast: 'glm-4.5-air' } }));
+    assert.strictEqual(env.ANTHROPIC_DEFAULT_OPUS_MODEL, 'glm-4.7');
+    assert.strictEqual(env.ANTHROPIC_SMALL_FAST_MODEL, 'glm-4.5-air');
+    assert.strictEqual(env.ANTHROPIC_DEFAULT_SONNET_MODEL, '');
+    assert.strictEqual(env.ANTHROPIC_DEFAULT_HAIKU_MODEL, '');
+  });
+
+  test('ignores role keys that are not model roles', () => {
+    const profile = makeProfile({ roleModels: { bogus: 'm' } as never });
+    const env = generateEnvVars(profile);
+    assert.ok(!('undefined' in env));
+    assert.ok(!Object.values(env).includes('m'));
+    assert.doesNotMatch(generateShellScript(profile, 'bash'), /undefined/);
+  });
+});
+
+describe('generateShellScript', () => {
+  test('quotes the profile name in CCX_ACTIVE_PROFILE', () => {
+    const profile = makeProfile({ name: "x'; touch /tmp/ccx-pwned; '" });
+    assert.match(generateShellScript(profile, 'bash'), /^export CCX_ACTIVE_PROFILE='x'\\''; touch \/tmp\/ccx-pwned; '\\'''$/m);
+    assert.match(generateShellScript(profile, 'fish'), /^set -gx CCX_ACTIVE_PROFILE 'x\\'; touch \/tmp\/ccx-pwned; \\''$/m);
+    assert.match(generateShellScript(profile, 'powershell'), /\$env:CCX_ACTIVE_PROFILE = 'x''; touch \/tmp\/ccx-pwned; '''/);
+  });
+
+  test('a line break in the profile name cannot escape the header comment', () => {
+    const script = generateShellScript(makeProfile({ name: 'evil\ntouch /tmp/ccx-pwned' }), 'bash');
+    const [header, generated] = script.split('\n');
+    assert.strictEqual(header, '# Claude Env - Profile: evil_touch /tmp/ccx-pwned');
+    assert.match(generated, /^# Generated: /);
+  });
+
+  test('cmd output escapes operators in values and names', () => {
+    const profile = makeProfile({ name: 'a&calc', baseUrl: 'https://x/?a=1&b=%PATH%', extraEnv: { EXTRA: 'x|y^z' } });
+    const script = generateShellScript(profile, 'cmd');
+    assert.match(script, /^set "ANTHROPIC_BASE_URL=https:\/\/x\/\?a=1&b=%%PATH%%"$/m);
+    assert.match(script, /^set "EXTRA=x\|y\^z"$/m);
+    assert.match(script, /^set "CCX_ACTIVE_PROFILE=a&calc"$/m);
+    assert.match(script, /^@REM Claude Env - Profile: a_calc$/m);
+  });
+
+  test('nushell gets a JSON record of variables to set and unset', () => {
+    const profile = makeProfile({ name: "it's", apiKey: 'sk-"x"', model: 'm' });
+    const record = JSON.parse(generateShellScript(profile, 'nushell'));
+    assert.deepStrictEqual(record.set, {
+      ANTHROPIC_BASE_URL: 'https://example.com',
+      ANTHROPIC_AUTH_TOKEN: 'sk-"x"',
+      ANTHROPIC_MODEL: 'm',
+      CCX_ACTIVE_PROFILE: "it's"
+    });
+    assert.ok(record.unset.includes('ANTHROPIC_API_KEY'));
+    assert.ok(record.unset.includes('CLAUDE_CODE_USE_BEDROCK'));
+  });
+
+  test('csh output is a single line for eval', () => {
+    const script = generateShellScript(makeProfile({ name: 'a!b', model: 'm' }), 'tcsh');
+    assert.ok(!script.includes('\n'));
+    assert.match(script, /setenv CCX_ACTIVE_PROFILE 'a\\!b'$/);
+  });
+
+  test('rejects extraEnv keys that are not valid variable names', () => {
+    const profile = makeProfile({ extraEnv: { 'X; touch /tmp/ccx-pwned': '1' } });
+    assert.throws(() => generateShellScript(profile, 'bash'), /Invalid environment variable name/);
+  });
+
+  test('eval in bash sets exactly the profile values', { skip: !hasShell('bash') }, () => {
+    const profile = makeProfile({
+      name: "it's $(whoami)",
+      baseUrl: 'https://example.com/`id`',
+      apiKey: "sk-'\"$HOME",
+      extraEnv: { EXTRA: 'a\nb' }
+    });
+    const output = roundTrip(
+      'bash',
+      generateShellScript(profile, 'bash'),
+      'printf "%s|%s|%s|%s" "$CCX_ACTIVE_PROFILE" "$ANTHROPIC_BASE_URL" "$ANTHROPIC_AUTH_TOKEN" "$EXTRA"'
+    );
+    assert.strictEqual(output, "it's $(whoami)|https://example.com/`id`|sk-'\"$HOME|a\nb");
+  });
+});
+
+describe('generateRestoreScript', () => {
+  test('restores recorded values through the same quoting', () => {
+    const script = generateRestoreScript('bash', { ANTHROPIC_API_KEY: "k'ey", FOO: '' });
+    assert.deepStrictEqual(script.split('\n'), [
+      "export ANTHROPIC_API_KEY='k'\\''ey'",
+      'unset FOO',
+      'unset CCX_PREVIOUS_ENV'
+    ]);
+  });
+});
+
+describe('generateResetScript', () => {
+  test('unsets the kind\'s variables in each shell\'s syntax', () => {
+    assert.match(generateResetScript('bash'), /^unset ANTHROPIC_BASE_URL$/m);
+    assert.match(generateResetScript('elvish'), /^unset-env ANTHROPIC_BASE_URL$/m);
+    assert.match(generateResetScript('tcsh'), /^unsetenv ANTHROPIC_BASE_URL; /);
+    const record = JSON.parse(generateResetScript('nushell', 'bedrock'));
+    assert.deepStrictEqual(record.set, {});
+    assert.ok(record.unset.includes('CLAUDE_CODE_USE_BEDROCK'));
+  });
+});
+
+describe('detectShell', () => {
+  function withEnv(env: Record<string, string | undefined>, fn: () => void): void {
+    const saved = Object.fromEntries(Object.keys(env).map(key => [key, process.env[key]]));
+    const apply = (values: Record<string, string | undefined>) => {
+      for (const [key, value] of Object.entries(values)) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    };
+    apply(env);
+    try {
+      fn();
+    } finally {
+      apply(saved);
+    }
+  }
+
+  test('recognizes shells from $SHELL', () => {
+    const cases: Record<string, ShellType> = {
+      '/usr/bin/nu': 'nushell',
+      '/usr/local/bin/elvish': 'elvish',
+      '/usr/bin/xonsh': 'xonsh',
+      '/bin/tcsh': 'tcsh',
+      '/bin/csh': 'csh',
+      '/usr/bin/fish': 'fish',
+      '/bin/zsh': 'zsh',
+      '/bin/bash': 'bash'
+    };
+    for (const [shell, expected] of Object.entries(cases)) {
+      withEnv({ SHELL: shell, NU_VERSION: undefined, XONSH_VERSION: undefined }, () => {
+        assert.strictEqual(detectShell(), expected);
+      });
+    }
+  });
+
+  test('prefers nushell and xonsh when running inside them', () => {
+    withEnv({ SHELL: '/bin/bash', NU_VERSION: '0.99.0', XONSH_VERSION: undefined }, () => {
+      assert.strictEqual(detectShell(), 'nushell');
+    });
+    withEnv({ SHELL: '/bin/bash', NU_VERSION: undefined, XONSH_VERSION: '0.18.0' }, () => {
+      assert.strictEqual(detectShell(), 'xonsh');
+    });
+  });
+});
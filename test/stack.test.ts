@@ -0,0 +1,132 @@
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import { test, describe, before, after } from 'node:test';
+import {
+  captureEnvFrame,
+  collapseEnvStack,
+  encodeEnvStack,
+  findHookFrame,
+  readEnvStack,
+  recoverApiKey,
+  PREVIOUS_ENV_VAR
+} from '../src/lib/stack.js';
+import { hasShell, makeHome, runBash, savedProfile } from './helpers.js';
+
+describe('env stack encoding', () => {
+  test('round-trips frames through the shell-safe encoding', () => {
+    const stack = [{ vars: { ANTHROPIC_API_KEY: "sk-'quoted' $(x)", ANTHROPIC_MODEL: '' } }];
+    const encoded = encodeEnvStack(stack);
+    assert.match(encoded, /^[\w-]+$/);
+    assert.deepStrictEqual(readEnvStack({ [PREVIOUS_ENV_VAR]: encoded }), stack);
+  });
+
+  test('a missing or mangled value reads as an empty stack', () => {
+    assert.deepStrictEqual(readEnvStack({}), []);
+    assert.deepStrictEqual(readEnvStack({ [PREVIOUS_ENV_VAR]: 'not base64 json' }), []);
+    assert.deepStrictEqual(readEnvStack({ [PREVIOUS_ENV_VAR]: encodeEnvStack([{ vars: null }] as never) }), []);
+  });
+
+  test('captures unset variables as empty values', () => {
+    assert.deepStrictEqual(
+      captureEnvFrame(['ANTHROPIC_API_KEY', 'ANTHROPIC_MODEL'], { ANTHROPIC_API_KEY: 'sk-original' }),
+      { vars: { ANTHROPIC_API_KEY: 'sk-original', ANTHROPIC_MODEL: '' } }
+    );
+  });
+
+  test('collapsing keeps the oldest value of each variable', () => {
+    const collapsed = collapseEnvStack([
+      { vars: { ANTHROPIC_BASE_URL: '', ANTHROPIC_API_KEY: 'sk-original' } },
+      { vars: { ANTHROPIC_BASE_URL: 'https://a.example.com', ANTHROPIC_MODEL: '' } }
+    ]);
+    assert.deepStrictEqual(collapsed, { ANTHROPIC_BASE_URL: '', ANTHROPIC_API_KEY: 'sk-original', ANTHROPIC_MODEL: '' });
+  });
+
+  test('finds the newest frame the directory hook pushed', () => {
+    const stack = readEnvStack({
+      [PREVIOUS_ENV_VAR]: encodeEnvStack([{ vars: {} }, { vars: {}, hook: true }, { vars: {} }])
+    });
+    assert.strictEqual(findHookFrame(stack), 1);
+    assert.strictEqual(findHookFrame([{ vars: {} }]), -1);
+  });
+
+  test('recovers the key an earlier profile cleared only for profiles that keep it', () => {
+    const env = { [PREVIOUS_ENV_VAR]: encodeEnvStack([{ vars: { ANTHROPIC_API_KEY: 'sk-original' } }]) };
+    const official = savedProfile('official', { baseUrl: 'https://api.anthropic.com', clearAnthropicKey: false });
+
+    assert.deepStrictEqual(recoverApiKey(official, env), { ANTHROPIC_API_KEY: 'sk-original' });
+    assert.deepStrictEqual(recoverApiKey({ ...official, clearAnthropicKey: true }, env), {});
+    assert.deepStrictEqual(recoverApiKey(official, { ...env, ANTHROPIC_API_KEY: 'sk-current' }), {});
+    assert.deepStrictEqual(recoverApiKey(official, {}), {});
+  });
+});
+
+describe('ccx use / pop / reset', { skip: !hasShell('bash') }, () => {
+  let home: string;
+
+  before(() => {
+    home = makeHome('ccx-stack-', {
+      schemaVersion: 2,
+      profiles: {
+        a: savedProfile('a', { baseUrl: 'https://a.example.com' }),
+        b: savedProfile('b', { baseUrl: 'https://b.example.com', model: 'model-b' }),
+        or: savedProfile('or', { baseUrl: 'https://openrouter.ai/api', apiKey: 'sk-or', model: 'z-ai/glm-4.7' }),
+        official: savedProfile('official', { baseUrl: 'https://api.anthropic.com', clearAnthropicKey: false })
+      }
+    });
+  });
+
+  after(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  // Starts with only ANTHROPIC_API_KEY set
+  function bash(lines: string[]): string[] {
+    return runBash(home, lines, { env: { ANTHROPIC_API_KEY: 'sk-original' } });
+  }
+
+  const show = 'echo "${ANTHROPIC_BASE_URL-unset} ${ANTHROPIC_MODEL-unset} ${ANTHROPIC_API_KEY-unset} ${CCX_ACTIVE_PROFILE-unset}"';
+
+  test('pop undoes one use at a time and reset undoes them all', () => {
+    const lines = bash([
+      'eval "$(ccx use a --shell bash)"', show,
+      'eval "$(ccx use b --shell bash)"', show,
+      'eval "$(ccx pop --shell bash)"', show,
+      'eval "$(ccx use b --shell bash)"',
+      'eval "$(ccx reset --shell bash)"', show,
+      'echo "${CCX_PREVIOUS_ENV-unset}"'
+    ]);
+
+    assert.deepStrictEqual(lines, [
+      // clearAnthropicKey unsets the key while a profile is applied
+      'https://a.example.com unset unset a',
+      'https://b.example.com model-b unset b',
+      'https://a.example.com unset unset a',
+      // Back to the shell as it was, including the cleared key
+      'unset unset sk-original unset',
+      'unset'
+    ]);
+  });
+
+  test('switching to the official profile drops the old token and model and brings the key back', () => {
+    const lines = bash([
+      'eval "$(ccx use or --shell bash)"',
+      'eval "$(ccx use official --shell bash)"',
+      show,
+      'echo "${ANTHROPIC_AUTH_TOKEN-unset}"',
+      'eval "$(ccx pop --shell bash)"',
+      'echo "${ANTHROPIC_AUTH_TOKEN-unset} ${ANTHROPIC_API_KEY-unset}"'
+    ]);
+
+    assert.deepStrictEqual(lines, [
+      'https://api.anthropic.com unset sk-original official',
+      'unset',
+      // Popping goes back to OpenRouter, which clears the key again
+      'sk-or unset'
+    ]);
+  });
+
+  test('pop restores the key cleared by the only profile applied', () => {
+    const lines = bash(['eval "$(ccx use a --shell bash)"', 'eval "$(ccx pop --shell bash)"', show]);
+    assert.deepStrictEqual(lines, ['unset unset sk-original unset']);
+  });
+});
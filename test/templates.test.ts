@@ -0,0 +1,228 @@
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import { test, describe, before, after } from 'node:test';
+import { makeHome, readStore, runCli } from './helpers.js';
+import { ProviderTemplate } from '../src/types.js';
+
+function userTemplate(name: string, fields: Partial<ProviderTemplate> = {}): ProviderTemplate {
+  return {
+    name,
+    displayName: name,
+    description: '',
+    baseUrl: `https://${name}.example.com`,
+    requiresApiKey: true,
+    clearAnthropicKey: true,
+    ...fields
+  };
+}
+
+let home: string;
+let providers: typeof import('../src/templates/providers.js');
+
+before(async () => {
+  // A store edited by hand can hold a user template with a built-in's name
+  home = makeHome('ccx-templates-', {
+    schemaVersion: 2,
+    profiles: {},
+    templates: {
+      zeta: userTemplate('zeta'),
+      openrouter: userTemplate('openrouter', { baseUrl: 'https://shadow.example.com' }),
+      alpha: userTemplate('alpha')
+    }
+  });
+  // The config store is opened when the module loads, so point it at the temp home first
+  process.env.HOME = home;
+  process.env.XDG_CONFIG_HOME = home;
+  providers = await import('../src/templates/providers.js');
+});
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+describe('listTemplates and getTemplate', () => {
+  test('lists built-in templates first, then user templates by name', () => {
+    const names = providers.listTemplates().map(t => t.name);
+    const builtIn = providers.providerTemplates.map(t => t.name);
+    assert.deepStrictEqual(names, [...builtIn, 'alpha', 'zeta']);
+  });
+
+  test('a user template cannot shadow a built-in one', () => {
+    assert.strictEqual(providers.getTemplate('openrouter')?.baseUrl, 'https://openrouter.ai/api');
+    assert.strictEqual(providers.listTemplates().filter(t => t.name === 'openrouter').length, 1);
+  });
+
+  test('user templates are found by name', () => {
+    assert.strictEqual(providers.getTemplate('alpha')?.baseUrl, 'https://alpha.example.com');
+    assert.strictEqual(providers.isBuiltInTemplate('alpha'), false);
+    assert.strictEqual(providers.getTemplate('missing'), undefined);
+  });
+});
+
+describe('template parameters', () => {
+  const ollama = () => providers.getTemplate('ollama')!;
+
+  test('parseParamArgs splits name=value and rejects anything else', () => {
+    assert.deepStrictEqual(providers.parseParamArgs(['host=gpu-box', 'query=a=b']), { host: 'gpu-box', query: 'a=b' });
+    assert.throws(() => providers.parseParamArgs(['host']), /Invalid parameter "host". Expected name=value./);
+    assert.throws(() => providers.parseParamArgs(['=x']), /Invalid parameter "=x"/);
+  });
+
+  test('defaults fill in parameters that are not given', () => {
+    assert.deepStrictEqual(providers.validateTemplateParams(ollama(), {}), []);
+    assert.strictEqual(providers.applyTemplateParams(ollama(), {}).baseUrl, 'http://localhost:11434');
+    assert.strictEqual(providers.applyTemplateParams(ollama(), { host: 'gpu-box' }).baseUrl, 'http://gpu-box:11434');
+  });
+
+  test('ports must be between 1 and 65535', () => {
+    for (const port of ['1', '80', '11434', '65535']) {
+      assert.deepStrictEqual(providers.validateTemplateParams(ollama(), { port }), [], port);
+    }
+    for (const port of ['0', '65536', '99999', '08080', '80a', '']) {
+      assert.strictEqual(providers.validateTemplateParams(ollama(), { port }).length, 1, port);
+    }
+  });
+
+  test('rejects bad values, unknown parameters and missing required ones', () => {
+    assert.deepStrictEqual(providers.validateTemplateParams(ollama(), { host: 'evil.com/x?', bogus: '1' }), [
+      'Template "ollama" has no parameter "bogus"',
+      'Parameter "host" must match /[a-zA-Z0-9.-]+/ (got "evil.com/x?")'
+    ]);
+
+    const azure = userTemplate('azure', { baseUrl: 'https://{{resource}}.example.com', params: [{ name: 'resource' }] });
+    assert.deepStrictEqual(providers.validateTemplateParams(azure, {}), ['Parameter "resource" is required']);
+  });
+
+  test('reports placeholders no parameter declares', () => {
+    const template = userTemplate('gateway', {
+      baseUrl: 'https://{{host}}/v1',
+      extraEnv: { PROXY: 'http://{{proxy}}' },
+      params: [{ name: 'host', default: 'localhost' }]
+    });
+    assert.deepStrictEqual(providers.validateTemplateParams(template, {}), [
+      'Template "gateway" references undeclared parameter "proxy"'
+    ]);
+  });
+
+  test('substitutes into the base URL, default model and extra env', () => {
+    const template = userTemplate('gateway', {
+      baseUrl: 'https://{{host}}/v1',
+      defaultModel: '{{family}}-large',
+      extraEnv: { HTTPS_PROXY: 'http://{{host}}:3128' },
+      params: [{ name: 'host' }, { name: 'family', default: 'claude' }]
+    });
+    const applied = providers.applyTemplateParams(template, { host: 'llm.corp' });
+    assert.strictEqual(applied.baseUrl, 'https://llm.corp/v1');
+    assert.strictEqual(applied.defaultModel, 'claude-large');
+    assert.deepStrictEqual(applied.extraEnv, { HTTPS_PROXY: 'http://llm.corp:3128' });
+    // The stored template keeps its placeholders
+    assert.strictEqual(template.baseUrl, 'https://{{host}}/v1');
+  });
+});
+
+describe('ccx template', () => {
+  let home: string;
+
+  before(() => {
+    home = makeHome('ccx-template-cli-', { schemaVersion: 2, profiles: {}, templates: {} });
+  });
+
+  after(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  test('create stores the template and profiles can be made from it', () => {
+    const create = runCli(home, [
+      'template', 'create', 'corp', '--base-url', 'https://llm.corp.example', '--model', 'corp-large', '--no-clear-key'
+    ]);
+    assert.strictEqual(create.status, 0, create.stderr);
+    assert.deepStrictEqual(readStore(home).templates.corp, {
+      name: 'corp',
+      displayName: 'corp',
+      description: '',
+      baseUrl: 'https://llm.corp.example',
+      defaultModel: 'corp-large',
+      requiresApiKey: true,
+      clearAnthropicKey: false
+    });
+
+    assert.match(runCli(home, ['templates']).stdout, /^ {2}corp \(user\)$/m);
+
+    const profile = runCli(home, ['create', 'work', '--template', 'corp', '--api-key', 'sk-corp']);
+    assert.strictEqual(profile.status, 0, profile.stderr);
+    const saved = readStore(home).profiles.work;
+    assert.strictEqual(saved.provider, 'corp');
+    assert.strictEqual(saved.baseUrl, 'https://llm.corp.example');
+    assert.strictEqual(saved.model, 'corp-large');
+    assert.strictEqual(saved.clearAnthropicKey, false);
+  });
+
+  test('create refuses the name of a built-in template', () => {
+    const result = runCli(home, ['template', 'create', 'openrouter', '--base-url', 'https://shadow.example.com']);
+    assert.strictEqual(result.status, 1);
+    assert.match(result.stderr, /"openrouter" is a built-in template/);
+    assert.strictEqual(readStore(home).templates.openrouter, undefined);
+  });
+
+  test('create rejects an existing name, a bad name and a missing base URL', () => {
+    runCli(home, ['template', 'create', 'taken', '--base-url', 'https://taken.example.com']);
+
+    const duplicate = runCli(home, ['template', 'create', 'taken', '--base-url', 'https://other.example.com']);
+    assert.strictEqual(duplicate.status, 1);
+    assert.match(duplicate.stderr, /Template "taken" already exists/);
+    assert.strictEqual(readStore(home).templates.taken.baseUrl, 'https://taken.example.com');
+
+    const badName = runCli(home, ['template', 'create', 'a/b', '--base-url', 'https://x.example.com']);
+    assert.strictEqual(badName.status, 1);
+    assert.match(badName.stderr, /may only contain alphanumerics/);
+
+    const noUrl = runCli(home, ['template', 'create', 'nourl']);
+    assert.strictEqual(noUrl.status, 1);
+    assert.match(noUrl.stderr, /--base-url is required/);
+  });
+
+  test('built-in templates cannot be edited or deleted', () => {
+    assert.match(runCli(home, ['template', 'edit', 'official', '--model', 'x']).stderr, /cannot be edited/);
+    assert.match(runCli(home, ['template', 'delete', 'official']).stderr, /cannot be deleted/);
+  });
+
+  test('delete removes a user template', () => {
+    runCli(home, ['template', 'create', 'gone', '--base-url', 'https://gone.example.com']);
+    assert.strictEqual(runCli(home, ['template', 'delete', 'gone']).status, 0);
+    assert.strictEqual(readStore(home).templates.gone, undefined);
+    assert.match(runCli(home, ['template', 'delete', 'gone']).stderr, /Template "gone" not found/);
+  });
+
+  test('extra env placeholders are declared, stored and filled in when creating a profile', () => {
+    const undeclared = runCli(home, [
+      'template', 'create', 'proxied', '--base-url', 'http://{{host}}:4000', '--define', 'host', '--env', 'HTTPS_PROXY=http://{{proxy}}'
+    ]);
+    assert.strictEqual(undeclared.status, 1);
+    assert.match(undeclared.stderr, /Undeclared parameters: proxy/);
+
+    const create = runCli(home, [
+      'template', 'create', 'proxied', '--base-url', 'http://{{host}}:4000', '--define', 'host=localhost',
+      '--env', 'HTTPS_PROXY=http://{{host}}:3128'
+    ]);
+    assert.strictEqual(create.status, 0, create.stderr);
+    assert.deepStrictEqual(readStore(home).templates.proxied.extraEnv, { HTTPS_PROXY: 'http://{{host}}:3128' });
+
+    const profile = runCli(home, ['create', 'via-proxy', '--template', 'proxied', '--param', 'host=gpu-box', '--api-key', 'sk']);
+    assert.strictEqual(profile.status, 0, profile.stderr);
+    assert.strictEqual(readStore(home).profiles['via-proxy'].baseUrl, 'http://gpu-box:4000');
+    assert.deepStrictEqual(readStore(home).profiles['via-proxy'].extraEnv, { HTTPS_PROXY: 'http://gpu-box:3128' });
+
+    assert.strictEqual(runCli(home, ['template', 'edit', 'proxied', '--unset-env', 'HTTPS_PROXY']).status, 0);
+    assert.strictEqual(readStore(home).templates.proxied.extraEnv, undefined);
+  });
+
+  test('create rejects a bad parameter value before saving', () => {
+    const result = runCli(home, ['create', 'gpu', '--template', 'ollama', '--param', 'port=99999']);
+    assert.strictEqual(result.status, 1);
+    assert.match(result.stderr, /Parameter "port" must match/);
+    assert.strictEqual(readStore(home).profiles.gpu, undefined);
+
+    const unknown = runCli(home, ['create', 'gpu', '--template', 'ollama', '--param', 'gpu=1']);
+    assert.match(unknown.stderr, /Template "ollama" has no parameter "gpu"/);
+  });
+});
@@ -21,7 +21,10 @@ import "./App.css";
 import "./index.css";
 import {
   api,
+  applyTemplateDefaults,
+  type ModelRole,
   type Profile,
+  type ProfileKind,
   type StatusResponse,
   type Template,
   type ShellType,
@@ -498,12 +501,21 @@ function ProfilesPage() {
                 </div>
               )}
               <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-1.5 text-xs">
-                <div>
-                  <div className="text-muted-foreground">Base URL</div>
-                  <div className="truncate" title={p.baseUrl}>
-                    {p.baseUrl}
+                {p.kind && p.kind !== "anthropic" ? (
+                  <div>
+                    <div className="text-muted-foreground">
+                      {p.kind === "bedrock" ? "Bedrock region" : "Vertex region"}
+                    </div>
+                    <div>{p.region}</div>
                   </div>
-                </div>
+                ) : (
+                  <div>
+                    <div className="text-muted-foreground">Base URL</div>
+                    <div className="truncate" title={p.baseUrl}>
+                      {p.baseUrl}
+                    </div>
+                  </div>
+                )}
                 <div>
                   <div className="text-muted-foreground">Model</div>
                   <div>
@@ -553,6 +565,13 @@ function ProfilesPage() {
   );
 }
 
+const ROLE_FIELDS: { role: ModelRole; label: string }[] = [
+  { role: "opus", label: "Opus model" },
+  { role: "sonnet", label: "Sonnet model" },
+  { role: "haiku", label: "Haiku model" },
+  { role: "smallFast", label: "Small/fast (background) model" },
+];
+
 interface ProfileFormDialogProps {
   open: boolean;
   state: ProfileFormState;
@@ -573,8 +592,15 @@ function ProfileFormDialog({
 
   const [name, setName] = useState(base?.name ?? "");
   const [templateName, setTemplateName] = useState("");
+  const [kind, setKind] = useState<ProfileKind>(base?.kind ?? "anthropic");
   const [baseUrl, setBaseUrl] = useState(base?.baseUrl ?? "");
   const [model, setModel] = useState(base?.model ?? "");
+  const [region, setRegion] = useState(base?.region ?? "");
+  const [awsProfile, setAwsProfile] = useState(base?.awsProfile ?? "");
+  const [projectId, setProjectId] = useState(base?.projectId ?? "");
+  const [roleModels, setRoleModels] = useState<Partial<Record<ModelRole, string>>>(
+    base?.roleModels ?? {}
+  );
   const [description, setDescription] = useState(base?.description ?? "");
   const [apiKey, setApiKey] = useState("");
   const [clearAnthropicKey, setClearAnthropicKey] = useState(
@@ -602,8 +628,10 @@ function ProfileFormDialog({
     if (!value || !templates) return;
     const t = templates.find((tpl) => tpl.name === value);
     if (!t) return;
-    setBaseUrl(t.baseUrl || "");
-    setModel(t.defaultModel || "");
+    setKind(t.kind ?? "anthropic");
+    setBaseUrl(applyTemplateDefaults(t.baseUrl || "", t));
+    setModel(applyTemplateDefaults(t.defaultModel || "", t));
+    setRegion(t.defaultRegion || "");
     if (!description) setDescription(t.description || "");
     setClearAnthropicKey(t.clearAnthropicKey);
   };
@@ -613,7 +641,10 @@ function ProfileFormDialog({
     const finalName =
       mode === "edit" && base ? base.name : effectiveName.trim();
 
-    if (!finalName || !baseUrl.trim()) return;
+    if (!finalName) return;
+    if (kind === "anthropic" && !baseUrl.trim()) return;
+    if (kind !== "anthropic" && !region.trim()) return;
+    if (kind === "vertex" && !projectId.trim()) return;
     if (!/^[a-zA-Z0-9_-]+$/.test(finalName)) return;
 
     const provider = templateName || base?.provider || "custom";
@@ -621,8 +652,13 @@ function ProfileFormDialog({
     onSubmit({
       name: finalName,
       provider,
+      kind,
       baseUrl: baseUrl.trim(),
       model: model.trim() || undefined,
+      region: kind !== "anthropic" ? region.trim() : undefined,
+      awsProfile: kind === "bedrock" ? awsProfile.trim() || undefined : undefined,
+      projectId: kind === "vertex" ? projectId.trim() : undefined,
+      roleModels,
       description: description.trim() || undefined,
       apiKey: apiKey.trim() || base?.apiKey,
       clearAnthropicKey,
@@ -688,18 +724,76 @@ function ProfileFormDialog({
             />
           </div>
 
+          <div className="space-y-1">
+            <label className="block text-xs text-muted-foreground">Kind</label>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as ProfileKind)}
+              className="h-8 w-full rounded-md border border-border bg-background px-2 text-xs outline-none focus:ring-1 focus:ring-primary"
+            >
+              <option value="anthropic">Anthropic-compatible endpoint</option>
+              <option value="bedrock">Amazon Bedrock</option>
+              <option value="vertex">Google Vertex AI</option>
+            </select>
+          </div>
+
           <div className="space-y-1">
             <label className="block text-xs text-muted-foreground">
-              Base URL
+              {kind === "anthropic" ? "Base URL" : "Gateway URL"}
             </label>
             <input
               value={baseUrl}
               onChange={(e) => setBaseUrl(e.target.value)}
               className="h-8 w-full rounded-md border border-border bg-background px-2 text-xs outline-none focus:ring-1 focus:ring-primary"
-              placeholder="https://api.example.com"
+              placeholder={
+                kind === "anthropic"
+                  ? "https://api.example.com"
+                  : "Optional, leave empty to call the cloud provider directly"
+              }
             />
           </div>
 
+          {kind !== "anthropic" && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <label className="block text-xs text-muted-foreground">
+                  Region
+                </label>
+                <input
+                  value={region}
+                  onChange={(e) => setRegion(e.target.value)}
+                  className="h-8 w-full rounded-md border border-border bg-background px-2 text-xs outline-none focus:ring-1 focus:ring-primary"
+                  placeholder={kind === "bedrock" ? "us-east-1" : "us-east5"}
+                />
+              </div>
+              {kind === "bedrock" ? (
+                <div className="space-y-1">
+                  <label className="block text-xs text-muted-foreground">
+                    AWS profile
+                  </label>
+                  <input
+                    value={awsProfile}
+                    onChange={(e) => setAwsProfile(e.target.value)}
+                    className="h-8 w-full rounded-md border border-border bg-background px-2 text-xs outline-none focus:ring-1 focus:ring-primary"
+                    placeholder="Optional"
+                  />
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  <label className="block text-xs text-muted-foreground">
+                    GCP project ID
+                  </label>
+                  <input
+                    value={projectId}
+                    onChange={(e) => setProjectId(e.target.value)}
+                    className="h-8 w-full rounded-md border border-border bg-background px-2 text-xs outline-none focus:ring-1 focus:ring-primary"
+                    placeholder="my-project"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="space-y-1">
             <label className="block text-xs text-muted-foreground">Model</label>
             <input
@@ -710,6 +804,26 @@ function ProfileFormDialog({
             />
           </div>
 
+          <div className="space-y-1">
+            <label className="block text-xs text-muted-foreground">
+              Role models (for Claude Code's opus/sonnet/haiku and background
+              calls)
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {ROLE_FIELDS.map(({ role, label }) => (
+                <input
+                  key={role}
+                  value={roleModels[role] ?? ""}
+                  onChange={(e) =>
+                    setRoleModels((r) => ({ ...r, [role]: e.target.value }))
+                  }
+                  className="h-8 w-full rounded-md border border-border bg-background px-2 text-xs outline-none focus:ring-1 focus:ring-primary"
+                  placeholder={label}
+                />
+              ))}
+            </div>
+          </div>
+
           <div className="space-y-1">
             <label className="block text-xs text-muted-foreground">
               API key
@@ -866,6 +980,15 @@ function buildActivateCommand(name: string, shell: ShellType): string {
       return `iex (ccx use ${name} --shell powershell)`;
     case "cmd":
       return `ccx use ${name} --shell cmd`;
+    case "nushell":
+      return `^ccx use ${name} --shell nushell | from json | do --env { let r = $in; hide-env -i ...$r.unset; load-env $r.set }`;
+    case "elvish":
+      return `eval (ccx use ${name} --shell elvish | slurp)`;
+    case "xonsh":
+      return `execx($(ccx use ${name} --shell xonsh))`;
+    case "tcsh":
+    case "csh":
+      return `eval "\`ccx use ${name} --shell ${shell}\`"`;
     case "bash":
     case "zsh":
     default:
@@ -933,6 +1056,10 @@ function ActivationDialog({
                 <option value="fish">fish</option>
                 <option value="powershell">PowerShell</option>
                 <option value="cmd">cmd.exe</option>
+                <option value="nushell">nushell</option>
+                <option value="elvish">elvish</option>
+                <option value="xonsh">xonsh</option>
+                <option value="tcsh">tcsh/csh</option>
               </select>
             </div>
             <div className="flex items-center gap-2 rounded-md border border-border bg-card/60 px-3 py-2 font-mono text-xs">
@@ -972,8 +1099,10 @@ function TemplatesPage() {
       name: template.name,
       description: template.description,
       provider: template.name,
-      baseUrl: template.baseUrl,
-      model: template.defaultModel,
+      kind: template.kind,
+      region: template.defaultRegion,
+      baseUrl: applyTemplateDefaults(template.baseUrl, template),
+      model: template.defaultModel && applyTemplateDefaults(template.defaultModel, template),
       apiKey: undefined,
       clearAnthropicKey: template.clearAnthropicKey,
       extraEnv: undefined,
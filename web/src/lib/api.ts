@@ -1,9 +1,18 @@
+export type ProfileKind = 'anthropic' | 'bedrock' | 'vertex'
+
+export type ModelRole = 'smallFast' | 'opus' | 'sonnet' | 'haiku'
+
 export interface Profile {
   name: string
   description?: string
   provider: string
+  kind?: ProfileKind
   baseUrl: string
   model?: string
+  region?: string
+  awsProfile?: string
+  projectId?: string
+  roleModels?: Partial<Record<ModelRole, string>>
   apiKey?: string
   clearAnthropicKey: boolean
   extraEnv?: Record<string, string>
@@ -17,15 +26,34 @@ export interface StatusResponse {
   totalProfiles: number
 }
 
+export interface TemplateParam {
+  name: string
+  description?: string
+  default?: string
+  pattern?: string
+}
+
 export interface Template {
   name: string
   displayName: string
   description: string
+  kind?: ProfileKind
   baseUrl: string
   defaultModel?: string
+  defaultRegion?: string
   requiresApiKey: boolean
   clearAnthropicKey: boolean
   setupInstructions?: string
+  params?: TemplateParam[]
+  extraEnv?: Record<string, string>
+}
+
+// Fill {{param}} placeholders with the template's defaults
+export function applyTemplateDefaults(value: string, template: Template): string {
+  return value.replace(/\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g, (match, key: string) => {
+    const param = template.params?.find((p) => p.name === key)
+    return param?.default ?? match
+  })
 }
 
 async function request<T>(input: RequestInfo, init?: RequestInit): Promise<T> {
@@ -43,7 +71,17 @@ async function request<T>(input: RequestInfo, init?: RequestInit): Promise<T> {
   return (await res.json()) as T
 }
 
-export type ShellType = 'bash' | 'zsh' | 'fish' | 'powershell' | 'cmd'
+export type ShellType =
+  | 'bash'
+  | 'zsh'
+  | 'fish'
+  | 'powershell'
+  | 'cmd'
+  | 'nushell'
+  | 'elvish'
+  | 'xonsh'
+  | 'tcsh'
+  | 'csh'
 
 interface ProfileEnvelope {
   success: boolean